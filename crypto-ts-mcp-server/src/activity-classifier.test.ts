@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyActivity, countActivities } from './activity-classifier.js';
+import type { WalletActivity } from './activity-classifier.js';
+import { SOL_MINT } from './position-ledger.js';
+import { WalletAnalyzer } from './wallet-analyzer.js';
+import type { PriceHistory } from './price-history.js';
+import type { TradeInfo } from './wallet-analyzer.js';
+
+const WALLET = 'GfsJWjmGXMfct8JMR9Lm9ySUnniZbnGUTQDbT8ipWf9U';
+const SENDER = '3gLESRnfLgzAqu6PwGhBwsiBsnQ7BAtyWHhZ5zNcDPMF';
+const TOKEN = 'Token11111111111111111111111111111111111111';
+const OTHER = 'Other11111111111111111111111111111111111111';
+const NFT = 'Nft1111111111111111111111111111111111111111';
+const T0 = 1760000000;
+
+const tokenTransfer = (mint: string, from: string, to: string, tokenAmount = 100) => ({ fromUserAccount: from, toUserAccount: to, mint, tokenAmount });
+
+// Minimal Helius transaction: the wallet pays the fee unless the case says otherwise
+const transaction = (type: string, extra: Record<string, unknown> = {}) =>
+  ({ signature: `sig-${type}`, timestamp: T0, type, fee: 5000, feePayer: WALLET, ...extra });
+
+const swap: TradeInfo = { timestamp: T0, type: 'SWAP', signature: 'sig-SWAP', tokenIn: SOL_MINT, amountIn: 1, tokenOut: TOKEN, amountOut: 100 };
+
+const cases: { name: string; tx: any; deltas: [string, number][]; trade?: TradeInfo; expected: Partial<WalletActivity> & Record<string, unknown> }[] = [
+  { name: 'a parsed swap', tx: transaction('SWAP'), deltas: [[SOL_MINT, -1], [TOKEN, 100]], trade: swap,
+    expected: { category: 'swap', tokenIn: SOL_MINT, amountIn: 1, tokenOut: TOKEN, amountOut: 100 } },
+  { name: 'SOL received from another wallet', tx: transaction('TRANSFER', { feePayer: SENDER, nativeTransfers: [{ fromUserAccount: SENDER, toUserAccount: WALLET, amount: 2e9 }] }),
+    deltas: [[SOL_MINT, 2]], expected: { category: 'transfer_in', mint: SOL_MINT, amount: 2, counterparty: SENDER } },
+  { name: 'tokens received in a transaction the wallet paid for', tx: transaction('TRANSFER', { tokenTransfers: [tokenTransfer(TOKEN, SENDER, WALLET)] }),
+    deltas: [[TOKEN, 100]], expected: { category: 'transfer_in', mint: TOKEN, amount: 100, counterparty: SENDER } },
+  { name: 'tokens sent by one wallet to this one only', tx: transaction('TRANSFER', { feePayer: SENDER, tokenTransfers: [tokenTransfer(TOKEN, SENDER, WALLET)] }),
+    deltas: [[TOKEN, 100]], expected: { category: 'transfer_in', counterparty: SENDER } },
+  { name: 'tokens paid out to many wallets at once', tx: transaction('TRANSFER', { feePayer: SENDER, tokenTransfers: [WALLET, OTHER, NFT].map(to => tokenTransfer(TOKEN, SENDER, to)) }),
+    deltas: [[TOKEN, 100]], expected: { category: 'airdrop', mint: TOKEN, amount: 100, counterparty: SENDER } },
+  { name: 'tokens minted to the wallet by someone else', tx: transaction('TOKEN_MINT', { feePayer: SENDER, tokenTransfers: [{ toUserAccount: WALLET, mint: TOKEN, tokenAmount: 100 }] }),
+    deltas: [[TOKEN, 100]], expected: { category: 'airdrop', mint: TOKEN } },
+  { name: 'claimed rewards', tx: transaction('CLAIM_REWARDS', { tokenTransfers: [tokenTransfer(TOKEN, SENDER, WALLET, 5)] }),
+    deltas: [[TOKEN, 5], [SOL_MINT, 0.001]], expected: { category: 'reward', mint: TOKEN, amount: 5 } },
+  { name: 'tokens sent away', tx: transaction('TRANSFER', { tokenTransfers: [tokenTransfer(TOKEN, WALLET, SENDER, 40)] }),
+    deltas: [[TOKEN, -40]], expected: { category: 'transfer_out', mint: TOKEN, amount: 40, counterparty: SENDER } },
+  { name: 'SOL staked', tx: transaction('STAKE_SOL'), deltas: [[SOL_MINT, -10]], expected: { category: 'stake', amount: 10 } },
+  { name: 'stake withdrawn', tx: transaction('WITHDRAW', { source: 'STAKE_PROGRAM' }), deltas: [[SOL_MINT, 10.1]], expected: { category: 'unstake', amount: 10.1 } },
+  { name: 'unstaked SOL', tx: transaction('UNSTAKE_SOL'), deltas: [[SOL_MINT, 3]], expected: { category: 'unstake', amount: 3 } },
+  { name: 'liquidity added', tx: transaction('ADD_LIQUIDITY', { source: 'RAYDIUM' }), deltas: [[SOL_MINT, -1], [TOKEN, -100]], expected: { category: 'liquidity_add', pool: 'RAYDIUM' } },
+  { name: 'tokens withdrawn from a pool', tx: transaction('WITHDRAW', { source: 'METEORA' }), deltas: [[SOL_MINT, 1], [TOKEN, 100]], expected: { category: 'liquidity_remove', pool: 'METEORA' } },
+  { name: 'an NFT sold', tx: transaction('NFT_SALE', { events: { nft: { seller: WALLET, buyer: SENDER, amount: 2.5e9, source: 'MAGIC_EDEN', nfts: [{ mint: NFT }] } } }),
+    deltas: [[SOL_MINT, 2.5]], expected: { category: 'nft_sell', nftMint: NFT, price: 2.5, marketplace: 'MAGIC_EDEN' } },
+  { name: 'an NFT bought', tx: transaction('NFT_SALE', { events: { nft: { seller: SENDER, buyer: WALLET, amount: 2.5e9, nfts: [{ mint: NFT }] } } }),
+    deltas: [[SOL_MINT, -2.5], [NFT, 1]], expected: { category: 'nft_buy', nftMint: NFT, price: 2.5 } },
+  { name: 'a closed token account', tx: transaction('CLOSE_ACCOUNT'), deltas: [[SOL_MINT, 0.00203928]], expected: { category: 'rent', amount: 0.00203928 } },
+  { name: 'an unknown transaction moving tokens both ways', tx: transaction('UNKNOWN'), deltas: [[TOKEN, -100], [OTHER, 5]], expected: { category: 'other' } }
+];
+
+for (const { name, tx, deltas, trade, expected } of cases) {
+  test(`classifies ${name} as ${expected.category}`, () => {
+    const activity = classifyActivity(tx, WALLET, new Map(deltas), trade) as unknown as Record<string, unknown>;
+    for (const [key, value] of Object.entries(expected)) {
+      assert.deepEqual(activity[key], value, key);
+    }
+    assert.equal(activity.type, tx.type);
+    assert.equal(activity.fee, tx.feePayer === WALLET ? 0.000005 : undefined);
+  });
+}
+
+test('SOL dust from rent is not a movement when tokens moved', () => {
+  const activity = classifyActivity(transaction('TRANSFER', { tokenTransfers: [tokenTransfer(TOKEN, SENDER, WALLET)] }), WALLET, new Map([[TOKEN, 100], [SOL_MINT, -0.002]]));
+  assert.deepEqual(activity.movements, [{ mint: TOKEN, amount: 100 }]);
+  assert.equal(countActivities([activity]).transfer_in, 1);
+});
+
+test('an unpriced transfer in opens no lot and is counted, an unpriced airdrop enters at zero cost', async () => {
+  const transferIn = classifyActivity(transaction('TRANSFER', { signature: 'in', tokenTransfers: [tokenTransfer(TOKEN, SENDER, WALLET)] }), WALLET, new Map([[TOKEN, 100]]));
+  const airdrop = classifyActivity(
+    transaction('TRANSFER', { signature: 'drop', feePayer: SENDER, tokenTransfers: [WALLET, OTHER, NFT].map(to => tokenTransfer(OTHER, SENDER, to, 50)) }),
+    WALLET, new Map([[OTHER, 50]]));
+  assert.deepEqual([transferIn.category, airdrop.category], ['transfer_in', 'airdrop']);
+
+  // SOL has a price, the tokens have none
+  const priceHistory = { getMintPriceAt: async (mint: string) => mint === SOL_MINT ? 150 : undefined } as unknown as PriceHistory;
+  const analyzer = new WalletAnalyzer('test-key', undefined, priceHistory);
+  const sale: TradeInfo = { timestamp: T0 + 3600, type: 'SWAP', signature: 'sale', tokenIn: TOKEN, amountIn: 100, tokenOut: SOL_MINT, amountOut: 1 };
+
+  const { stats, disposals } = await analyzer.analyzeTrades([sale], {
+    transactionsInRange: 3,
+    historyTruncated: false,
+    activities: [transferIn, airdrop],
+    currentPrices: { [SOL_MINT]: 150 }
+  });
+
+  assert.equal(stats.unpricedTransfers, 1);
+  assert.equal(stats.tradeHistory[0].profitLoss, undefined, 'the sale of the unpriced tokens stays unmatched');
+  assert.equal(stats.closedTrades, 0);
+  assert.equal(disposals[0].unmatchedAmount, 100);
+  assert.equal(stats.positionsUsd.find(position => position.mint === TOKEN)?.amountHeld ?? 0, 0);
+
+  const dropped = stats.positionsUsd.find(position => position.mint === OTHER)!;
+  assert.equal(dropped.amountHeld, 50);
+  assert.equal(dropped.costBasis, 0);
+});
@@ -0,0 +1,165 @@
+import { SOL_MINT } from './position-ledger.js';
+import type { TradeInfo } from './wallet-analyzer.js';
+
+export const ACTIVITY_CATEGORIES = [
+  'swap', 'transfer_in', 'transfer_out', 'airdrop', 'reward', 'stake', 'unstake',
+  'liquidity_add', 'liquidity_remove', 'nft_buy', 'nft_sell', 'rent', 'other'
+] as const;
+
+export type ActivityCategory = typeof ACTIVITY_CATEGORIES[number];
+
+// Net change of one mint for the wallet, negative when it left the wallet
+export interface TokenMovement {
+  mint: string; // SOL_MINT for native and wrapped SOL
+  amount: number;
+}
+
+interface ActivityBase {
+  signature: string;
+  timestamp: number;
+  type: string; // Helius transaction type, e.g. 'TRANSFER' or 'STAKE_SOL'
+  source?: string; // Program or marketplace Helius attributes the transaction to
+  fee?: number; // Network fee paid by the wallet, in SOL
+  movements: TokenMovement[];
+  description?: string;
+}
+
+export type WalletActivity =
+  | ActivityBase & { category: 'swap'; tokenIn?: string; amountIn?: number; tokenOut?: string; amountOut?: number }
+  | ActivityBase & { category: 'transfer_in' | 'transfer_out' | 'airdrop' | 'reward'; mint: string; amount: number; counterparty?: string }
+  | ActivityBase & { category: 'stake' | 'unstake'; amount: number } // SOL moved into or out of staking
+  | ActivityBase & { category: 'liquidity_add' | 'liquidity_remove'; pool?: string }
+  | ActivityBase & { category: 'nft_buy' | 'nft_sell'; nftMint?: string; price?: number; marketplace?: string } // Price in SOL
+  | ActivityBase & { category: 'rent'; amount: number } // SOL reclaimed from closed accounts, negative when paid
+  | ActivityBase & { category: 'other' };
+
+// Categories whose movements change what the wallet holds without a trade
+export const INFLOW_CATEGORIES: ActivityCategory[] = ['transfer_in', 'airdrop', 'reward'];
+export const OUTFLOW_CATEGORIES: ActivityCategory[] = ['transfer_out'];
+
+const EPSILON = 1e-12;
+// Rent for token accounts opened or closed along the way moves a little native SOL
+const SOL_DUST = 0.003;
+// A sender paying out to this many wallets in one transaction is distributing an airdrop
+const AIRDROP_RECIPIENTS = 3;
+
+const STAKE_TYPES = new Set(['STAKE_SOL', 'INIT_STAKE', 'STAKE_TOKEN', 'DELEGATE', 'MERGE_STAKE', 'SPLIT_STAKE']);
+const UNSTAKE_TYPES = new Set(['UNSTAKE_SOL', 'UNSTAKE_TOKEN', 'DEACTIVATE_STAKE', 'WITHDRAW_STAKE']);
+const REWARD_TYPES = new Set(['CLAIM_REWARDS', 'HARVEST_REWARD', 'DISTRIBUTE_COMPRESSION_REWARDS', 'CLAIM']);
+const LIQUIDITY_ADD_TYPES = new Set(['ADD_LIQUIDITY', 'DEPOSIT', 'INIT_POOL', 'CREATE_POOL']);
+const LIQUIDITY_REMOVE_TYPES = new Set(['WITHDRAW_LIQUIDITY', 'REMOVE_LIQUIDITY', 'CLOSE_POSITION']);
+const NFT_TYPES = new Set(['NFT_SALE', 'NFT_MINT', 'COMPRESSED_NFT_MINT', 'NFT_GLOBAL_BID_FILLED', 'NFT_BID_FILLED']);
+
+/**
+ * Classify a Helius transaction from the wallet's point of view. `deltas` are the wallet's net
+ * balance changes per mint (native and wrapped SOL combined, fee excluded); `trade` is the
+ * swap parsed from the transaction, if any.
+ */
+export function classifyActivity(tx: any, walletAddress: string, deltas: Map<string, number>, trade?: TradeInfo | null): WalletActivity {
+  const tokenMoved = [...deltas].some(([mint, amount]) => mint !== SOL_MINT && Math.abs(amount) > EPSILON);
+  const movements = [...deltas]
+    .filter(([mint, amount]) => Math.abs(amount) > (mint === SOL_MINT && tokenMoved ? SOL_DUST : EPSILON))
+    .map(([mint, amount]) => ({ mint, amount }));
+  const solChange = deltas.get(SOL_MINT) ?? 0;
+  const type: string = tx.type || 'UNKNOWN';
+
+  const base: ActivityBase = {
+    signature: tx.signature,
+    timestamp: tx.timestamp,
+    type,
+    ...(tx.source ? { source: tx.source } : {}),
+    ...(tx.feePayer === walletAddress && typeof tx.fee === 'number' ? { fee: tx.fee / 1e9 } : {}),
+    movements,
+    ...(tx.description ? { description: tx.description } : {})
+  };
+
+  if (trade) {
+    return { ...base, category: 'swap', tokenIn: trade.tokenIn, amountIn: trade.amountIn, tokenOut: trade.tokenOut, amountOut: trade.amountOut };
+  }
+
+  const nft = tx.events?.nft;
+  if (NFT_TYPES.has(type) || nft) {
+    const nftMint = nft?.nfts?.[0]?.mint;
+    const price = nft?.amount !== undefined ? Number(nft.amount) / 1e9 : undefined;
+    const details = { ...(nftMint ? { nftMint } : {}), ...(price !== undefined ? { price } : {}), ...(nft?.source ? { marketplace: nft.source } : {}) };
+    if (nft?.seller === walletAddress) return { ...base, category: 'nft_sell', ...details };
+    if (nft?.buyer === walletAddress || type.includes('MINT')) return { ...base, category: 'nft_buy', ...details };
+  }
+
+  if (STAKE_TYPES.has(type)) return { ...base, category: 'stake', amount: Math.max(0, -solChange) };
+  if (UNSTAKE_TYPES.has(type) || (type === 'WITHDRAW' && (tx.source === 'STAKE_PROGRAM' || !tokenMoved))) {
+    return { ...base, category: 'unstake', amount: Math.max(0, solChange) };
+  }
+  if (LIQUIDITY_ADD_TYPES.has(type)) return { ...base, category: 'liquidity_add', ...(tx.source ? { pool: tx.source } : {}) };
+  if (LIQUIDITY_REMOVE_TYPES.has(type) || type === 'WITHDRAW') {
+    return { ...base, category: 'liquidity_remove', ...(tx.source ? { pool: tx.source } : {}) };
+  }
+  if (type === 'CLOSE_ACCOUNT' || type === 'CREATE_ACCOUNT') {
+    return { ...base, category: 'rent', amount: solChange };
+  }
+
+  const inbound = movements.filter(movement => movement.amount > 0);
+  const outbound = movements.filter(movement => movement.amount < 0);
+
+  if (inbound.length > 0 && outbound.length === 0) {
+    const primary = primaryMovement(inbound);
+    const counterparty = transferCounterparty(tx, primary.mint, walletAddress, 'in');
+    const details = { mint: primary.mint, amount: primary.amount, ...(counterparty ? { counterparty } : {}) };
+    if (REWARD_TYPES.has(type)) return { ...base, category: 'reward', ...details };
+    if (isAirdrop(tx, primary.mint, walletAddress, counterparty)) return { ...base, category: 'airdrop', ...details };
+    return { ...base, category: 'transfer_in', ...details };
+  }
+
+  if (outbound.length > 0 && inbound.length === 0) {
+    const primary = primaryMovement(outbound);
+    const counterparty = transferCounterparty(tx, primary.mint, walletAddress, 'out');
+    return { ...base, category: 'transfer_out', mint: primary.mint, amount: -primary.amount, ...(counterparty ? { counterparty } : {}) };
+  }
+
+  return { ...base, category: 'other' };
+}
+
+/**
+ * The token movement a transfer is about: any token over SOL, then the largest amount
+ */
+function primaryMovement(movements: TokenMovement[]): TokenMovement {
+  const tokens = movements.filter(movement => movement.mint !== SOL_MINT);
+  const candidates = tokens.length > 0 ? tokens : movements;
+  return candidates.reduce((best, movement) => Math.abs(movement.amount) > Math.abs(best.amount) ? movement : best);
+}
+
+function transferCounterparty(tx: any, mint: string, walletAddress: string, direction: 'in' | 'out'): string | undefined {
+  const transfers = mint === SOL_MINT
+    ? [...(tx.nativeTransfers || []), ...(tx.tokenTransfers || []).filter((transfer: any) => transfer.mint === SOL_MINT)]
+    : (tx.tokenTransfers || []).filter((transfer: any) => transfer.mint === mint);
+  const transfer = transfers.find((entry: any) => direction === 'in'
+    ? entry.toUserAccount === walletAddress && entry.fromUserAccount !== walletAddress
+    : entry.fromUserAccount === walletAddress && entry.toUserAccount !== walletAddress);
+  const counterparty = direction === 'in' ? transfer?.fromUserAccount : transfer?.toUserAccount;
+  return counterparty || undefined;
+}
+
+/**
+ * Tokens the wallet did not ask for: minted straight to it, or part of a payout to many
+ * wallets, in a transaction someone else paid for
+ */
+function isAirdrop(tx: any, mint: string, walletAddress: string, sender?: string): boolean {
+  if (mint === SOL_MINT || tx.feePayer === walletAddress) return false;
+  if (!sender || tx.type === 'TOKEN_MINT' || tx.type === 'COMPRESSED_NFT_MINT') return true;
+
+  const recipients = new Set((tx.tokenTransfers || [])
+    .filter((transfer: any) => transfer.mint === mint && transfer.fromUserAccount === sender)
+    .map((transfer: any) => transfer.toUserAccount));
+  return recipients.size >= AIRDROP_RECIPIENTS;
+}
+
+/**
+ * Number of activities per category, every category present
+ */
+export function countActivities(activities: WalletActivity[]): Record<ActivityCategory, number> {
+  const counts = Object.fromEntries(ACTIVITY_CATEGORIES.map(category => [category, 0])) as Record<ActivityCategory, number>;
+  for (const activity of activities) {
+    counts[activity.category]++;
+  }
+  return counts;
+}
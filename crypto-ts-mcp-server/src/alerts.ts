@@ -0,0 +1,335 @@
+import { randomUUID } from 'node:crypto';
+import { readJsonFile, writeJsonFile } from './storage.js';
+import { SOL_MINT } from './position-ledger.js';
+import type { PriceService } from './price-service.js';
+import type { TokenRegistry } from './token-registry.js';
+import type { WalletAnalyzer, TradeInfo } from './wallet-analyzer.js';
+
+export type AlertCondition =
+  | { kind: 'price_above'; cryptoId: string; vsCurrency: string; threshold: number }
+  | { kind: 'price_below'; cryptoId: string; vsCurrency: string; threshold: number }
+  | { kind: 'price_change'; cryptoId: string; vsCurrency: string; percent: number } // Move in either direction from the reference price
+  | { kind: 'wallet_swap'; walletAddress: string; minSol?: number }; // Any swap, or swaps with a SOL leg of at least minSol
+
+export interface AlertEvent {
+  firedAt: string; // ISO timestamp
+  message: string;
+  price?: number;
+  signature?: string;
+}
+
+export interface Alert {
+  id: string;
+  condition: AlertCondition;
+  repeat: boolean; // Keep watching after the alert fired
+  status: 'active' | 'fired';
+  createdAt: string;
+  lastCheckedAt?: string;
+  lastPrice?: number;
+  referencePrice?: number; // price_change: price the move is measured from (reset every time the alert fires)
+  armed?: boolean; // price thresholds: fire only when the price crosses the threshold, not while it stays past it
+  since?: number; // wallet_swap: unix timestamp (seconds) of the newest swap already seen
+  seenSignatures?: string[]; // wallet_swap: swaps at exactly `since` that were already reported
+  events: AlertEvent[]; // Newest first
+}
+
+export type AlertListener = (alert: Alert, event: AlertEvent) => void;
+
+const CACHE_FILE = 'alerts.json';
+const MAX_EVENTS = 20;
+const DEFAULT_POLL_INTERVAL_MS = 60000;
+
+export const alertUri = (id: string) => `alert://${id}`;
+
+const solLeg = (trade: TradeInfo) => trade.tokenIn === SOL_MINT ? trade.amountIn
+  : trade.tokenOut === SOL_MINT ? trade.amountOut
+  : undefined;
+
+/**
+ * Price and wallet alerts, checked by a background poller and persisted to `alerts.json`.
+ * Listeners are told whenever an alert fires, so servers can notify resource subscribers.
+ */
+export class AlertManager {
+  private alerts: Map<string, Alert> = new Map();
+  private listeners: Set<AlertListener> = new Set();
+  private loaded: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private priceService: PriceService,
+    private walletAnalyzer: WalletAnalyzer,
+    private tokenRegistry: TokenRegistry,
+    private pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS
+  ) {}
+
+  /**
+   * Load persisted alerts and start polling if there are any
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<Alert[]>(CACHE_FILE, []).then(alerts => {
+        this.alerts = new Map(alerts.map(alert => [alert.id, alert]));
+        if (alerts.length > 0) {
+          console.log(`Alert manager loaded ${alerts.length} alerts`);
+        }
+        this.schedule();
+      });
+    }
+    return this.loaded;
+  }
+
+  onFire(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async list(): Promise<Alert[]> {
+    await this.load();
+    return [...this.alerts.values()];
+  }
+
+  async get(id: string): Promise<Alert | undefined> {
+    await this.load();
+    return this.alerts.get(id);
+  }
+
+  /**
+   * Create an alert. Price alerts resolve the coin and take the current price as their
+   * starting point; wallet alerts only report swaps made after creation.
+   */
+  async create(condition: AlertCondition, repeat = true): Promise<Alert> {
+    await this.load();
+
+    const alert: Alert = {
+      id: randomUUID(),
+      condition,
+      repeat,
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      events: []
+    };
+
+    if (condition.kind === 'wallet_swap') {
+      // Syncing once up front validates the address and makes the first poll incremental
+      alert.since = Math.floor(Date.now() / 1000);
+      alert.seenSignatures = [];
+      await this.walletAnalyzer.getTradesSince(condition.walletAddress, alert.since);
+      alert.lastCheckedAt = new Date().toISOString();
+    } else {
+      const result = await this.priceService.getPrice(condition.cryptoId, condition.vsCurrency);
+      if ('error' in result) {
+        throw result.error;
+      }
+      condition.cryptoId = result.id;
+      alert.lastPrice = result.price;
+      alert.lastCheckedAt = new Date().toISOString();
+      if (condition.kind === 'price_change') {
+        alert.referencePrice = result.price;
+      } else {
+        alert.armed = true; // A price already past the threshold fires on the first check
+      }
+    }
+
+    this.alerts.set(alert.id, alert);
+    await this.save();
+    return alert;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = this.alerts.delete(id);
+    if (deleted) {
+      await this.save();
+    }
+    return deleted;
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every active alert once. Price alerts on the same coin and currency share one lookup.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const active = [...this.alerts.values()].filter(alert => alert.status === 'active');
+      const prices = await this.fetchPrices(active);
+      let changed = false;
+
+      for (const alert of active) {
+        try {
+          const condition = alert.condition;
+          if (condition.kind === 'wallet_swap') {
+            changed = await this.checkWallet(alert, condition) || changed;
+            continue;
+          }
+
+          const price = prices.get(`${condition.cryptoId}:${condition.vsCurrency}`);
+          if (price === undefined) continue;
+
+          this.checkPrice(alert, condition, price);
+          changed = true;
+        } catch (error: any) {
+          console.error(`❌ ALERT ERROR: Could not check alert ${alert.id}:`, error.message || error);
+        }
+      }
+
+      if (changed) {
+        await this.save();
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Current prices for the price alerts, one batched lookup per quote currency. Stale prices
+   * are left out so an outage cannot fire an alert.
+   */
+  private async fetchPrices(alerts: Alert[]): Promise<Map<string, number>> {
+    const idsByCurrency = new Map<string, Set<string>>();
+    for (const { condition } of alerts) {
+      if (condition.kind === 'wallet_swap') continue;
+      const ids = idsByCurrency.get(condition.vsCurrency) ?? new Set();
+      idsByCurrency.set(condition.vsCurrency, ids.add(condition.cryptoId));
+    }
+
+    const prices = new Map<string, number>();
+    await Promise.all([...idsByCurrency].map(async ([vsCurrency, ids]) => {
+      const cryptoIds = [...ids];
+      const results = await this.priceService.getPrices(cryptoIds, vsCurrency);
+      results.forEach((result, index) => {
+        if (!('error' in result) && !result.stale) {
+          prices.set(`${cryptoIds[index]}:${vsCurrency}`, result.price);
+        }
+      });
+    }));
+    return prices;
+  }
+
+  private checkPrice(alert: Alert, condition: Exclude<AlertCondition, { kind: 'wallet_swap' }>, price: number) {
+    alert.lastPrice = price;
+    alert.lastCheckedAt = new Date().toISOString();
+    const vs = condition.vsCurrency.toUpperCase();
+
+    if (condition.kind === 'price_change') {
+      const reference = alert.referencePrice ?? price;
+      const change = reference > 0 ? ((price - reference) / reference) * 100 : 0;
+      if (Math.abs(change) >= condition.percent) {
+        alert.referencePrice = price;
+        this.fire(alert, {
+          message: `${condition.cryptoId} moved ${change > 0 ? '+' : ''}${change.toFixed(2)}% to ${price} ${vs}`,
+          price
+        });
+      }
+      return;
+    }
+
+    if (!this.pastThreshold(condition, price)) {
+      alert.armed = true;
+      return;
+    }
+    if (alert.armed) {
+      alert.armed = false;
+      this.fire(alert, {
+        message: `${condition.cryptoId} is ${condition.kind === 'price_above' ? 'above' : 'below'} ${condition.threshold} ${vs} at ${price} ${vs}`,
+        price
+      });
+    }
+  }
+
+  private pastThreshold(condition: { kind: 'price_above' | 'price_below'; threshold: number }, price: number): boolean {
+    return condition.kind === 'price_above' ? price >= condition.threshold : price <= condition.threshold;
+  }
+
+  private async checkWallet(alert: Alert, condition: Extract<AlertCondition, { kind: 'wallet_swap' }>): Promise<boolean> {
+    const since = alert.since ?? Math.floor(Date.now() / 1000);
+    const seen = new Set(alert.seenSignatures ?? []);
+    const trades = (await this.walletAnalyzer.getTradesSince(condition.walletAddress, since))
+      .filter(trade => trade.timestamp > since || !seen.has(trade.signature))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    alert.lastCheckedAt = new Date().toISOString();
+
+    for (const trade of trades) {
+      if (trade.timestamp > (alert.since ?? 0)) {
+        alert.since = trade.timestamp;
+        alert.seenSignatures = [];
+      }
+      alert.seenSignatures?.push(trade.signature);
+
+      const size = solLeg(trade);
+      if (condition.minSol !== undefined && (size === undefined || size < condition.minSol)) continue;
+
+      this.fire(alert, {
+        message: `${condition.walletAddress} swapped ${trade.amountIn ?? '?'} ${this.tokenRegistry.symbol(trade.tokenIn)} → ${trade.amountOut ?? '?'} ${this.tokenRegistry.symbol(trade.tokenOut)}${size !== undefined ? ` (${size.toFixed(4)} SOL)` : ''}`,
+        signature: trade.signature
+      });
+      if (alert.status !== 'active') break;
+    }
+    return true;
+  }
+
+  private fire(alert: Alert, details: Omit<AlertEvent, 'firedAt'>) {
+    const event: AlertEvent = { firedAt: new Date().toISOString(), ...details };
+    alert.events = [event, ...alert.events].slice(0, MAX_EVENTS);
+    if (!alert.repeat) {
+      alert.status = 'fired';
+    }
+    console.log(`🔔 ALERT ${alert.id}: ${event.message}`);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(alert, event);
+      } catch (error: any) {
+        console.error('Alert listener failed:', error.message || error);
+      }
+    }
+  }
+
+  /**
+   * Poll while there are active alerts. The timer does not keep the process alive on its own.
+   */
+  private schedule() {
+    const hasActive = [...this.alerts.values()].some(alert => alert.status === 'active');
+    if (hasActive && !this.timer) {
+      this.timer = setInterval(() => {
+        this.poll().catch(error => console.error('❌ ALERT ERROR: Poll failed:', error));
+      }, this.pollIntervalMs);
+      this.timer.unref();
+    } else if (!hasActive) {
+      this.stop();
+    }
+  }
+
+  private async save() {
+    this.schedule();
+    await writeJsonFile(CACHE_FILE, [...this.alerts.values()]).catch((error: any) => {
+      console.error('Could not persist alerts:', error.message || error);
+    });
+  }
+}
+
+/**
+ * One-line description of an alert's condition
+ */
+export function describeAlertCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case 'price_above':
+      return `${condition.cryptoId} above ${condition.threshold} ${condition.vsCurrency.toUpperCase()}`;
+    case 'price_below':
+      return `${condition.cryptoId} below ${condition.threshold} ${condition.vsCurrency.toUpperCase()}`;
+    case 'price_change':
+      return `${condition.cryptoId} moves ${condition.percent}% in ${condition.vsCurrency.toUpperCase()}`;
+    case 'wallet_swap':
+      return `${condition.walletAddress} swaps${condition.minSol !== undefined ? ` of at least ${condition.minSol} SOL` : ''}`;
+  }
+}
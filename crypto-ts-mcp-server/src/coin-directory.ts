@@ -0,0 +1,233 @@
+import { httpClient } from './http-client.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+import { coinGeckoClient } from './price-providers/index.js';
+import type { CoinGeckoOptions } from './price-providers/index.js';
+
+export interface CoinListing {
+  id: string;
+  symbol: string;
+  name: string;
+  marketCapRank?: number;
+}
+
+export interface CoinMatch extends CoinListing {
+  score: number;
+  matchedOn: 'id' | 'symbol' | 'name' | 'prefix' | 'fuzzy';
+}
+
+export type CoinResolution =
+  | { status: 'resolved'; coin: CoinListing }
+  | { status: 'ambiguous'; candidates: CoinMatch[] }
+  | { status: 'not_found'; suggestions: CoinMatch[] };
+
+interface CoinListCache {
+  fetchedAt: number;
+  coins: CoinListing[];
+}
+
+const CACHE_FILE = 'coin-list.json';
+const LIST_TTL_MS = 24 * 60 * 60 * 1000; // The coin list changes slowly, refresh daily
+const RANKED_COINS = 250; // Coins fetched from /coins/markets to rank ambiguous matches
+const RETRY_AFTER_FAILURE_MS = 5 * 60 * 1000;
+const FUZZY_THRESHOLD = 0.75;
+
+/**
+ * Levenshtein similarity between two strings, 1 for identical and 0 for nothing in common
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+const normalize = (value: string) => value.toLowerCase().trim().replace(/\s+/g, ' ');
+
+/**
+ * Directory of CoinGecko coins (id, symbol, name and market cap rank), cached locally for a day.
+ * Resolves what users type ('BTC', 'sol', 'Shiba Inu') to CoinGecko ids.
+ */
+export class CoinDirectory {
+  private requestTimeout: number = 15000;
+  private coins: CoinListing[] = [];
+  private byId: Map<string, CoinListing> = new Map();
+  private fetchedAt = 0;
+  private nextRetryAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private options: CoinGeckoOptions = {}) {}
+
+  /**
+   * True once a coin list is available (fresh, cached or stale)
+   */
+  get available(): boolean {
+    return this.coins.length > 0;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.coins.length === 0 && !this.loading) {
+      const cached = await readJsonFile<CoinListCache | null>(CACHE_FILE, null);
+      if (cached) this.setCoins(cached);
+    }
+
+    if (Date.now() - this.fetchedAt < LIST_TTL_MS || Date.now() < this.nextRetryAt) return;
+
+    // Refresh once at a time; a stale list keeps serving while the refresh fails
+    if (!this.loading) {
+      this.loading = this.refresh().finally(() => { this.loading = null; });
+    }
+    await this.loading;
+  }
+
+  private setCoins(cache: CoinListCache) {
+    this.coins = cache.coins;
+    this.byId = new Map(cache.coins.map(coin => [coin.id, coin]));
+    this.fetchedAt = cache.fetchedAt;
+  }
+
+  private async refresh() {
+    const { baseUrl, headers } = coinGeckoClient(this.options);
+    try {
+      console.log('API CALL: Fetching CoinGecko coin list');
+      const [list, markets] = await Promise.all([
+        httpClient.get(`${baseUrl}/coins/list`, { timeout: this.requestTimeout, headers }),
+        httpClient.get(`${baseUrl}/coins/markets`, {
+          params: { vs_currency: 'usd', order: 'market_cap_desc', per_page: RANKED_COINS, page: 1 },
+          timeout: this.requestTimeout,
+          headers
+        }).catch((error: any) => {
+          console.error('❌ API ERROR: Could not fetch market cap ranks:', error.message || error);
+          return { data: [] };
+        })
+      ]);
+
+      const ranks = new Map<string, number>(
+        (markets.data || []).map((market: any) => [market.id, market.market_cap_rank])
+      );
+      const coins: CoinListing[] = (list.data || []).map((coin: any) => ({
+        id: coin.id,
+        symbol: coin.symbol,
+        name: coin.name,
+        ...(ranks.get(coin.id) ? { marketCapRank: ranks.get(coin.id) } : {})
+      }));
+
+      if (coins.length > 0) {
+        const cache = { fetchedAt: Date.now(), coins };
+        this.setCoins(cache);
+        await writeJsonFile(CACHE_FILE, cache).catch((error: any) => {
+          console.error('Could not persist coin list cache:', error.message || error);
+        });
+        console.log(`Coin directory loaded ${coins.length} coins`);
+      }
+    } catch (error: any) {
+      console.error('❌ API ERROR: Could not fetch CoinGecko coin list:', error.message || error);
+      this.nextRetryAt = Date.now() + RETRY_AFTER_FAILURE_MS;
+    }
+  }
+
+  async getCoin(id: string): Promise<CoinListing | undefined> {
+    await this.ensureLoaded();
+    return this.byId.get(id);
+  }
+
+  /**
+   * The largest coins by market cap, for suggestions and listings. Empty until ranks are loaded.
+   */
+  async topCoins(limit = 10): Promise<CoinListing[]> {
+    await this.ensureLoaded();
+    return this.coins
+      .filter(coin => coin.marketCapRank !== undefined)
+      .sort((a, b) => a.marketCapRank! - b.marketCapRank!)
+      .slice(0, limit);
+  }
+
+  /**
+   * Rank coins matching `query` by id, symbol, name, prefix and fuzzy name similarity.
+   * Ties go to the higher market cap.
+   */
+  async search(query: string, limit = 10): Promise<CoinMatch[]> {
+    await this.ensureLoaded();
+
+    const q = normalize(query);
+    if (!q) return [];
+
+    const matches: CoinMatch[] = [];
+    for (const coin of this.coins) {
+      const id = coin.id.toLowerCase();
+      const symbol = coin.symbol.toLowerCase();
+      const name = normalize(coin.name);
+
+      let match: Pick<CoinMatch, 'score' | 'matchedOn'> | undefined;
+      if (id === q || id === q.replace(/ /g, '-')) match = { score: 100, matchedOn: 'id' };
+      else if (symbol === q) match = { score: 90, matchedOn: 'symbol' };
+      else if (name === q) match = { score: 85, matchedOn: 'name' };
+      else if (q.length >= 3 && (name.startsWith(q) || id.startsWith(q))) match = { score: 60, matchedOn: 'prefix' };
+      else if (q.length >= 4 && Math.abs(name.length - q.length) <= 3) {
+        const score = similarity(name, q);
+        if (score >= FUZZY_THRESHOLD) match = { score: Math.round(score * 50), matchedOn: 'fuzzy' };
+      }
+
+      if (match) matches.push({ ...coin, ...match });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || (a.marketCapRank ?? Infinity) - (b.marketCapRank ?? Infinity))
+      .slice(0, limit);
+  }
+
+  /**
+   * Resolve user input to a single coin. Several coins sharing a symbol or name resolve to the
+   * only one with a market cap rank; otherwise the candidates are returned as ambiguous.
+   * Partial and fuzzy matches only resolve when a single coin matches.
+   */
+  async resolve(input: string): Promise<CoinResolution> {
+    const matches = await this.search(input, 25);
+    if (!this.available) {
+      // Without a coin list, pass the input through as an id and let the providers decide
+      const id = input.toLowerCase().trim();
+      return { status: 'resolved', coin: { id, symbol: '', name: '' } };
+    }
+
+    // An exact id wins, unless it is an obscure coin whose id collides with a ranked coin's symbol
+    const exactId = matches.find(match => match.matchedOn === 'id');
+    const rankedSymbol = matches.some(match => match.matchedOn === 'symbol' && match.marketCapRank !== undefined);
+    if (exactId && (exactId.marketCapRank !== undefined || !rankedSymbol)) {
+      return { status: 'resolved', coin: exactId };
+    }
+
+    for (const kind of ['symbol', 'name'] as const) {
+      const exact = matches.filter(match => match.matchedOn === kind);
+      if (exact.length === 1) return { status: 'resolved', coin: exact[0] };
+      if (exact.length > 1) {
+        const ranked = exact.filter(match => match.marketCapRank !== undefined);
+        if (ranked.length === 1) return { status: 'resolved', coin: ranked[0] };
+        return { status: 'ambiguous', candidates: exact.slice(0, 10) };
+      }
+    }
+
+    // A prefix or typo that matches exactly one coin is unambiguous
+    if (matches.length === 1) return { status: 'resolved', coin: matches[0] };
+
+    return { status: 'not_found', suggestions: matches.slice(0, 5) };
+  }
+}
+
+/**
+ * One-line description of a directory match for tool output
+ */
+export function formatCoinMatch(coin: CoinListing): string {
+  const rank = coin.marketCapRank ? `, rank #${coin.marketCapRank}` : '';
+  return `${coin.name} (${coin.symbol.toUpperCase()}) — id: ${coin.id}${rank}`;
+}
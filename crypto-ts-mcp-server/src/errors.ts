@@ -0,0 +1,137 @@
+import { AxiosError } from 'axios';
+import { PriceProviderError } from './price-providers/types.js';
+
+export const ERROR_CODES = [
+  'invalid_input', // A parameter is malformed or missing
+  'invalid_address', // Not a base58-encoded 32-byte Solana public key
+  'unknown_coin', // No coin matches the id, symbol or name
+  'ambiguous_coin', // Several coins match, details carry the candidates
+  'not_found', // A named portfolio, alert or other record does not exist
+  'missing_api_key', // A required API key is not configured
+  'invalid_api_key', // An upstream API rejected the configured key
+  'rate_limited', // An upstream API throttled us
+  'upstream_timeout', // An upstream API did not answer in time
+  'upstream_unavailable', // Every source is failing or has its circuit open
+  'upstream_error', // An upstream API failed or answered with something unusable
+  'cancelled', // The client cancelled the request before it finished
+  'internal' // A bug or an unexpected failure
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+// Machine-readable form of an error, returned as `structuredContent.error` by failing tools
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean; // Repeating the same request later may succeed
+  retryAfterMs?: number; // Suggested wait before retrying
+  hint?: string; // What the caller can change to succeed
+  details?: Record<string, unknown>;
+}
+
+const RETRYABLE_CODES: ErrorCode[] = ['rate_limited', 'upstream_timeout', 'upstream_unavailable', 'upstream_error'];
+
+/**
+ * Error with a code from the shared taxonomy. Services throw it where they know what went wrong;
+ * anything else is classified by `toAppError` at the tool boundary.
+ */
+export class AppError extends Error {
+  public retryable: boolean;
+  public retryAfterMs?: number;
+  public hint?: string;
+  public details?: Record<string, unknown>;
+
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    options: { retryable?: boolean; retryAfterMs?: number; hint?: string; details?: Record<string, unknown>; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'AppError';
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(code);
+    this.retryAfterMs = options.retryAfterMs;
+    this.hint = options.hint;
+    this.details = options.details;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  toJSON(): ErrorInfo {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.retryAfterMs !== undefined ? { retryAfterMs: this.retryAfterMs } : {}),
+      ...(this.hint ? { hint: this.hint } : {}),
+      ...(this.details ? { details: this.details } : {})
+    };
+  }
+}
+
+function retryAfterMs(error: AxiosError): number | undefined {
+  const header = Number(error.response?.headers?.['retry-after']);
+  return Number.isFinite(header) && header >= 0 ? header * 1000 : undefined;
+}
+
+/**
+ * Classify any thrown value: AppErrors pass through, price provider and axios errors map to
+ * their codes, cancellations are `cancelled`, everything else is `internal`
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof PriceProviderError) {
+    const code: ErrorCode = error.kind === 'rate_limit' ? 'rate_limited'
+      : error.kind === 'timeout' ? 'upstream_timeout'
+      : error.kind === 'not_found' ? 'unknown_coin'
+      : 'upstream_error';
+    return new AppError(code, error.message, { retryable: error.retryable, retryAfterMs: error.retryAfterMs, details: { provider: error.provider }, cause: error });
+  }
+
+  if (error instanceof AxiosError) {
+    const host = error.config?.url ? safeHost(error.config.url) : undefined;
+    const upstream = host ?? 'upstream API';
+    const status = error.response?.status;
+    const details = { ...(host ? { host } : {}), ...(status ? { status } : {}) };
+
+    if (error.code === AxiosError.ERR_CANCELED) {
+      return new AppError('cancelled', 'The request was cancelled', { cause: error });
+    }
+    if (error.code === 'ERR_NO_FIXTURE' || error.code === 'ERR_BAD_FIXTURE') {
+      return new AppError('upstream_error', error.message, { retryable: false, hint: 'Record fixtures with HTTP_MODE=record first', details, cause: error });
+    }
+    if (status === 429) {
+      return new AppError('rate_limited', `${upstream} rate limit reached`, { retryAfterMs: retryAfterMs(error) ?? 60000, details, cause: error });
+    }
+    if (status === 401 || status === 403) {
+      return new AppError('invalid_api_key', `${upstream} rejected the request (HTTP ${status})`, { hint: 'Check the API key configured for this service', details, cause: error });
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.code === AxiosError.ETIMEDOUT) {
+      return new AppError('upstream_timeout', `${upstream} did not respond in time`, { retryAfterMs: 5000, details, cause: error });
+    }
+    // Server errors and dropped connections may pass; other client errors will not
+    const transient = status === undefined || status >= 500;
+    return new AppError('upstream_error', `${upstream} request failed: ${status ? `HTTP ${status}` : error.message}`, {
+      retryable: transient,
+      retryAfterMs: transient ? 5000 : undefined,
+      details,
+      cause: error
+    });
+  }
+
+  // Aborted through an AbortSignal outside axios
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new AppError('cancelled', 'The request was cancelled', { cause: error });
+  }
+
+  return new AppError('internal', error instanceof Error ? error.message : String(error), { cause: error });
+}
+
+function safeHost(url: string): string | undefined {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+}
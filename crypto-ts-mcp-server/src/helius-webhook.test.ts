@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { HeliusWebhookReceiver, WEBHOOK_PATH } from './helius-webhook.js';
+import { HttpError } from './http-server.js';
+import type { TransactionStore } from './transaction-store.js';
+import type { WalletAnalyzer } from './wallet-analyzer.js';
+
+const WALLET = 'GfsJWjmGXMfct8JMR9Lm9ySUnniZbnGUTQDbT8ipWf9U';
+
+// Records what would be ingested instead of storing and parsing it
+function receiver() {
+  const ingested: { walletAddress: string; signatures: string[] }[] = [];
+  const walletAnalyzer = {
+    async ingestTransactions(walletAddress: string, transactions: { signature: string }[]) {
+      ingested.push({ walletAddress, signatures: transactions.map(tx => tx.signature) });
+      return { added: transactions.length, trades: [] };
+    }
+  } as unknown as WalletAnalyzer;
+  const transactionStore = { async hasHistory() { return false; } } as unknown as TransactionStore;
+  return { ingested, receiver: new HeliusWebhookReceiver(walletAnalyzer, transactionStore, { secret: 'secret', wallets: [WALLET] }) };
+}
+
+test('the sample payload is ingested for the tracked wallet only', async () => {
+  const payload = JSON.parse(await readFile(new URL('../examples/webhook-payload.json', import.meta.url), 'utf8'));
+  const { ingested, receiver: webhook } = receiver();
+
+  const result = await webhook.receive(payload);
+  assert.equal(result.received, 1);
+  assert.deepEqual(ingested.map(entry => entry.walletAddress), [WALLET]);
+});
+
+test('payloads with entries that are not transaction objects are rejected', async () => {
+  const { ingested, receiver: webhook } = receiver();
+  const valid = { signature: 'sig', timestamp: 1760000000, feePayer: WALLET };
+
+  for (const payload of [null, 42, 'tx', [valid, null], [valid, [valid]], [{ signature: 'sig' }]]) {
+    await assert.rejects(webhook.receive(payload), (error: unknown) => error instanceof HttpError && error.status === 400);
+  }
+  assert.equal(ingested.length, 0);
+});
+
+test('malformed transfer lists are skipped when finding wallets', async () => {
+  const { ingested, receiver: webhook } = receiver();
+  await webhook.receive({ signature: 'sig', timestamp: 1760000000, feePayer: WALLET, nativeTransfers: 'none', accountData: [null] });
+  assert.deepEqual(ingested.map(entry => entry.walletAddress), [WALLET]);
+});
+
+test('the endpoint only accepts deliveries carrying the shared secret', async () => {
+  const payload = await readFile(new URL('../examples/webhook-payload.json', import.meta.url), 'utf8');
+  const { ingested, receiver: webhook } = receiver();
+  await webhook.listen('127.0.0.1', 0);
+
+  try {
+    const post = (authorization?: string) => fetch(`http://127.0.0.1:${webhook.port()}${WEBHOOK_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(authorization === undefined ? {} : { Authorization: authorization }) },
+      body: payload
+    });
+
+    for (const authorization of [undefined, '', 'wrong', 'secre', 'secret-and-more']) {
+      assert.equal((await post(authorization)).status, 401, `Authorization: ${authorization}`);
+    }
+    assert.equal(ingested.length, 0);
+
+    for (const authorization of ['secret', 'Bearer secret']) {
+      const response = await post(authorization);
+      assert.equal(response.status, 200);
+      assert.equal((await response.json()).received, 1);
+    }
+    assert.deepEqual(ingested.map(entry => entry.walletAddress), [WALLET, WALLET]);
+  } finally {
+    await webhook.close();
+  }
+});
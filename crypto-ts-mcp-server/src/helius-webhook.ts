@@ -0,0 +1,201 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { HttpError, readJsonBody, sendJson } from './http-server.js';
+import { isSolanaAddress } from './solana-address.js';
+import type { TransactionStore } from './transaction-store.js';
+import type { TradeInfo, WalletAnalyzer } from './wallet-analyzer.js';
+
+export interface WebhookOptions {
+  secret: string; // Expected verbatim in the `Authorization` header, as set in the Helius webhook's auth header
+  wallets?: string[]; // Wallets to ingest besides those with a stored history
+}
+
+// What one webhook delivery added to a wallet
+export interface WebhookIngest {
+  walletAddress: string;
+  transactions: number; // New transactions stored
+  trades: TradeInfo[]; // Trades among them, newest first
+}
+
+export interface WebhookResult {
+  received: number; // Transactions in the payload
+  wallets: WebhookIngest[];
+}
+
+export type TradeListener = (walletAddress: string, trades: TradeInfo[]) => void;
+
+// The fields of a Helius enhanced transaction the receiver reads; the rest is stored as delivered
+interface WebhookTransaction {
+  signature: string;
+  timestamp: number;
+  feePayer?: unknown;
+  nativeTransfers?: unknown;
+  tokenTransfers?: unknown;
+  accountData?: unknown;
+  [field: string]: unknown;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isWebhookTransaction = (value: unknown): value is WebhookTransaction =>
+  isObject(value) && typeof value.signature === 'string' && typeof value.timestamp === 'number';
+
+// Object entries of a payload field that should hold a list, anything else is skipped
+const objects = (value: unknown): JsonObject[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+export const WEBHOOK_PATH = '/webhooks/helius';
+
+/**
+ * Accounts a transaction moved funds for: the fee payer and the user side of every transfer
+ * and balance change. Program and pool accounts are left out.
+ */
+function transactionWallets(tx: WebhookTransaction): string[] {
+  return [...new Set<unknown>([
+    tx.feePayer,
+    ...objects(tx.nativeTransfers).flatMap(transfer => [transfer.fromUserAccount, transfer.toUserAccount]),
+    ...objects(tx.tokenTransfers).flatMap(transfer => [transfer.fromUserAccount, transfer.toUserAccount]),
+    ...objects(tx.accountData).flatMap(data => objects(data.tokenBalanceChanges).map(change => change.userAccount))
+  ])].filter((address): address is string => typeof address === 'string' && isSolanaAddress(address));
+}
+
+/**
+ * Receives Helius enhanced-transaction webhooks (`POST /webhooks/helius`) and appends the
+ * transactions to the wallets' stored histories, extracting trades the same way syncs do.
+ * Only wallets that were synced before or are listed in the options are ingested, so
+ * counterparties of a transaction do not get a history of their own. Listeners hear about
+ * new trades, so servers can notify resource subscribers.
+ */
+export class HeliusWebhookReceiver {
+  private listeners: Set<TradeListener> = new Set();
+  private wallets: Set<string>;
+  private httpServer: http.Server | null = null;
+
+  constructor(private walletAnalyzer: WalletAnalyzer, private transactionStore: TransactionStore, private options: WebhookOptions) {
+    this.wallets = new Set(options.wallets ?? []);
+  }
+
+  onTrades(listener: TradeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Ingest a webhook payload: an array of enhanced transactions, or a single one. Every entry
+   * must be an object with a signature and timestamp, or the whole payload is rejected.
+   */
+  async receive(payload: unknown): Promise<WebhookResult> {
+    const transactions: unknown[] = Array.isArray(payload) ? payload : [payload];
+    if (!transactions.every(isWebhookTransaction)) {
+      throw new HttpError(400, 'Expected Helius enhanced transactions with a signature and timestamp');
+    }
+
+    const byWallet = new Map<string, WebhookTransaction[]>();
+    for (const tx of transactions) {
+      for (const walletAddress of transactionWallets(tx)) {
+        if (!(await this.tracks(walletAddress))) continue;
+        byWallet.set(walletAddress, [...(byWallet.get(walletAddress) ?? []), tx]);
+      }
+    }
+
+    const wallets: WebhookIngest[] = [];
+    for (const [walletAddress, walletTransactions] of byWallet) {
+      const { added, trades } = await this.walletAnalyzer.ingestTransactions(walletAddress, walletTransactions);
+      wallets.push({ walletAddress, transactions: added, trades });
+      if (trades.length > 0) {
+        console.log(`Webhook added ${trades.length} trades for ${walletAddress}`);
+        for (const listener of this.listeners) {
+          listener(walletAddress, trades);
+        }
+      }
+    }
+    return { received: transactions.length, wallets };
+  }
+
+  /**
+   * Serve the webhook endpoint on its own port, next to either MCP transport
+   */
+  listen(host: string, port: number): Promise<void> {
+    if (!this.options.secret) {
+      return Promise.reject(new Error('A shared secret is required to receive webhooks, set HELIUS_WEBHOOK_SECRET'));
+    }
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (error instanceof HttpError) {
+          sendJson(res, error.status, { error: error.message });
+          return;
+        }
+        console.error('❌ WEBHOOK ERROR:', error);
+        if (!res.headersSent) {
+          sendJson(res, 500, { error: 'Internal server error' });
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.httpServer = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  // Port the endpoint is bound to, e.g. when listening on port 0
+  port(): number | undefined {
+    return (this.httpServer?.address() as AddressInfo | null)?.port;
+  }
+
+  async close() {
+    const server = this.httpServer;
+    this.httpServer = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== WEBHOOK_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    const result = await this.receive(await readJsonBody(req));
+    sendJson(res, 200, {
+      received: result.received,
+      wallets: result.wallets.map(wallet => ({ walletAddress: wallet.walletAddress, transactions: wallet.transactions, trades: wallet.trades.length }))
+    });
+  }
+
+  /**
+   * Helius sends the configured auth header verbatim; a `Bearer` prefix is accepted as well.
+   * Both sides are compared as fixed-length digests, so timing reveals neither the secret
+   * nor its length.
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.options.secret) return false;
+    const header = (req.headers.authorization ?? '').trim();
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(header.replace(/^Bearer\s+/i, '')), digest(this.options.secret));
+  }
+
+  private async tracks(walletAddress: string): Promise<boolean> {
+    return this.wallets.has(walletAddress) || this.transactionStore.hasHistory(walletAddress);
+  }
+}
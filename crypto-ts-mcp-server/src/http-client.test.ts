@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { httpClient } from './http-client.js';
+import { WalletAnalyzer } from './wallet-analyzer.js';
+
+const WALLET = 'GfsJWjmGXMfct8JMR9Lm9ySUnniZbnGUTQDbT8ipWf9U';
+const POOL = '3gLESRnfLgzAqu6PwGhBwsiBsnQ7BAtyWHhZ5zNcDPMF';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+/**
+ * Stand-in for Helius and CoinGecko: the wallet's transactions, and flat price charts for
+ * whatever range is asked for
+ */
+async function startUpstream(transactions: unknown[]) {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === `/v0/addresses/${WALLET}/transactions/`) {
+      send(200, url.searchParams.has('before') || url.searchParams.has('until') ? [] : transactions);
+    } else if (url.pathname.endsWith('/market_chart/range')) {
+      const from = Number(url.searchParams.get('from'));
+      const to = Math.min(Number(url.searchParams.get('to')), Math.floor(Date.now() / 1000));
+      const price = url.pathname.includes(BONK) ? 0.00002 : 150;
+      const prices: [number, number][] = [];
+      for (let time = from; time <= to; time += 6 * 60 * 60) prices.push([time * 1000, price]);
+      send(200, { prices });
+    } else {
+      send(404, { error: 'Not found' });
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+test('a wallet analysis recorded once replays offline with the same result', async () => {
+  const [buy] = JSON.parse(await readFile(new URL('../examples/webhook-payload.json', import.meta.url), 'utf8'));
+  const sell = {
+    signature: 'sell1111111111111111111111111111111111111111111111111111111111111111111111111111111111',
+    timestamp: Math.floor(Date.now() / 1000) - 60, // Priced from the current, still open, price window
+    type: 'SWAP',
+    source: 'RAYDIUM',
+    fee: 5000,
+    feePayer: WALLET,
+    nativeTransfers: [{ fromUserAccount: POOL, toUserAccount: WALLET, amount: 600000000 }],
+    tokenTransfers: [{ fromUserAccount: WALLET, toUserAccount: POOL, mint: BONK, tokenAmount: 25000000 }],
+    accountData: [],
+    events: {
+      swap: {
+        nativeOutput: { account: WALLET, amount: '600000000' },
+        tokenInputs: [{ userAccount: WALLET, mint: BONK, rawTokenAmount: { tokenAmount: '2500000000000', decimals: 5 } }]
+      }
+    }
+  };
+
+  const realNow = Date.now;
+  const upstream = await startUpstream([sell, buy]);
+  const { port } = upstream.address() as AddressInfo;
+  const base = `http://127.0.0.1:${port}`;
+  process.env.HELIUS_API_URL = base;
+  process.env.HELIUS_RPC_URL = base;
+  process.env.COINGECKO_API_URL = base;
+  process.env.HTTP_FIXTURES_DIR = await mkdtemp(path.join(tmpdir(), 'fixtures-'));
+
+  const analyze = async () => {
+    process.env.CACHE_DIR = await mkdtemp(path.join(tmpdir(), 'cache-'));
+    const { tradeHistory, ...stats } = await new WalletAnalyzer('test-key').analyzeWallet(WALLET);
+    return { stats, trades: tradeHistory.length };
+  };
+
+  try {
+    process.env.HTTP_MODE = 'record';
+    const recorded = await analyze();
+    assert.equal(recorded.trades, 2);
+    assert.equal(recorded.stats.closedTrades, 1);
+    await new Promise<void>(resolve => upstream.close(() => resolve()));
+
+    // Nothing answers any more and the clock has moved on: every request, the open price window
+    // included, must still find its fixture
+    process.env.HTTP_MODE = 'replay';
+    Date.now = () => realNow() + 5 * 60 * 1000;
+    const replayed = await analyze();
+    assert.deepEqual(replayed, recorded);
+  } finally {
+    Date.now = realNow;
+    upstream.close();
+    await rm(process.env.HTTP_FIXTURES_DIR, { recursive: true, force: true });
+  }
+});
+
+test('fixtures match without the parameters a request marks as clock-based', async () => {
+  const upstream = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ url: req.url }));
+  });
+  await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+  const { port } = upstream.address() as AddressInfo;
+  process.env.HTTP_FIXTURES_DIR = await mkdtemp(path.join(tmpdir(), 'fixtures-'));
+
+  try {
+    const get = (to: number) => httpClient.get(`http://127.0.0.1:${port}/range`, {
+      params: { vs_currency: 'usd', to },
+      fixtureIgnoreParams: ['to']
+    });
+
+    process.env.HTTP_MODE = 'record';
+    const recorded = await get(1000);
+    await new Promise<void>(resolve => upstream.close(() => resolve()));
+
+    process.env.HTTP_MODE = 'replay';
+    assert.deepEqual((await get(2000)).data, recorded.data);
+    await assert.rejects(httpClient.get(`http://127.0.0.1:${port}/range`, { params: { vs_currency: 'eur', to: 1000 } }),
+      (error: any) => error.code === 'ERR_NO_FIXTURE');
+  } finally {
+    upstream.close();
+    await rm(process.env.HTTP_FIXTURES_DIR, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,201 @@
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type HttpMode = 'live' | 'record' | 'replay';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Query parameters left out of fixtures, e.g. the clock-based bounds of a range ending now
+    fixtureIgnoreParams?: string[];
+  }
+}
+
+export type ApiService = 'helius' | 'heliusRpc' | 'coingecko' | 'coingeckoPro' | 'coincap' | 'cryptocompare' | 'jupiter';
+
+// A recorded request/response pair, one per fixture file
+export interface HttpFixture {
+  request: { method: string; url: string; params?: Record<string, unknown>; data?: unknown };
+  response: { status: number; statusText: string; contentType?: string; data: unknown };
+  recordedAt: string; // ISO timestamp
+}
+
+// Base URLs and the environment variables that override them (e.g. to point at a local stand-in)
+const API_BASE_URLS: Record<ApiService, { env: string; url: string }> = {
+  helius: { env: 'HELIUS_API_URL', url: 'https://api.helius.xyz' },
+  heliusRpc: { env: 'HELIUS_RPC_URL', url: 'https://mainnet.helius-rpc.com' },
+  coingecko: { env: 'COINGECKO_API_URL', url: 'https://api.coingecko.com/api/v3' },
+  coingeckoPro: { env: 'COINGECKO_PRO_API_URL', url: 'https://pro-api.coingecko.com/api/v3' },
+  coincap: { env: 'COINCAP_API_URL', url: 'https://api.coincap.io/v2' },
+  cryptocompare: { env: 'CRYPTOCOMPARE_API_URL', url: 'https://min-api.cryptocompare.com' },
+  jupiter: { env: 'JUPITER_API_URL', url: 'https://lite-api.jup.ag' }
+};
+
+// Credentials are never written to fixtures and do not take part in matching
+const SECRET_PARAMS = new Set(['api-key', 'api_key', 'apikey', 'x_cg_demo_api_key', 'x_cg_pro_api_key']);
+
+/**
+ * Base URL of an upstream API, without a trailing slash
+ */
+export function apiBaseUrl(service: ApiService): string {
+  const { env, url } = API_BASE_URLS[service];
+  return (process.env[env] || url).replace(/\/+$/, '');
+}
+
+/**
+ * `live` (default) talks to the network, `record` also saves every response to a fixture,
+ * `replay` answers from fixtures only and never touches the network. Set with HTTP_MODE.
+ */
+export function getHttpMode(): HttpMode {
+  const mode = (process.env.HTTP_MODE || 'live').toLowerCase();
+  if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown HTTP_MODE "${mode}", use "live", "record" or "replay"`);
+  }
+  return mode;
+}
+
+/**
+ * Directory fixtures are recorded to and replayed from. Defaults to `fixtures` in the working
+ * directory, override with HTTP_FIXTURES_DIR.
+ */
+export function getFixturesDir(): string {
+  return process.env.HTTP_FIXTURES_DIR ?? path.join(process.cwd(), 'fixtures');
+}
+
+/**
+ * Method, URL and query parameters with credentials removed, plus the request body
+ */
+function describeRequest(config: InternalAxiosRequestConfig): HttpFixture['request'] {
+  const url = new URL(axios.getUri({ ...config, params: undefined }));
+  const params: Record<string, unknown> = {};
+  url.searchParams.forEach((value, key) => {
+    params[key] = value;
+  });
+  for (const [key, value] of Object.entries(config.params ?? {})) {
+    if (value !== undefined) params[key] = value;
+  }
+  for (const key of Object.keys(params)) {
+    if (SECRET_PARAMS.has(key.toLowerCase()) || config.fixtureIgnoreParams?.includes(key)) delete params[key];
+  }
+
+  const data = typeof config.data === 'string' ? safeParse(config.data) : config.data;
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    url: `${url.origin}${url.pathname}`,
+    ...(Object.keys(params).length > 0 ? { params: Object.fromEntries(Object.entries(params).sort(([a], [b]) => a.localeCompare(b))) } : {}),
+    ...(data !== undefined ? { data } : {})
+  };
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Fixture file for a request: `<fixtures>/<host>/<method>-<hash>.json`
+ */
+function fixturePath(request: HttpFixture['request']): string {
+  const hash = createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+  const host = new URL(request.url).host.replace(/[^\w.-]/g, '_');
+  return path.join(getFixturesDir(), host, `${request.method.toLowerCase()}-${hash}.json`);
+}
+
+/**
+ * Settle a response the way axios' own adapters do: statuses rejected by `validateStatus`
+ * become an AxiosError carrying the response
+ */
+function settle(response: AxiosResponse): AxiosResponse {
+  const validateStatus = response.config.validateStatus;
+  if (!validateStatus || validateStatus(response.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    response.config,
+    null,
+    response
+  );
+}
+
+const replayAdapter: AxiosAdapter = async (config) => {
+  const request = describeRequest(config);
+  const file = fixturePath(request);
+
+  let fixture: HttpFixture;
+  try {
+    fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error: any) {
+    throw new AxiosError(
+      `No recorded response for ${request.method} ${request.url} (HTTP_MODE=replay, looked for ${file})`,
+      error.code === 'ENOENT' ? 'ERR_NO_FIXTURE' : 'ERR_BAD_FIXTURE',
+      config
+    );
+  }
+
+  return settle({
+    data: fixture.response.data,
+    status: fixture.response.status,
+    statusText: fixture.response.statusText,
+    headers: new AxiosHeaders(fixture.response.contentType ? { 'content-type': fixture.response.contentType } : {}),
+    config,
+    request: undefined
+  });
+};
+
+const liveAdapter = axios.getAdapter(axios.defaults.adapter);
+
+const recordAdapter: AxiosAdapter = async (config) => {
+  const save = async (response: AxiosResponse) => {
+    const request = describeRequest(config);
+    const fixture: HttpFixture = {
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers?.['content-type'] as string | undefined,
+        data: typeof response.data === 'string' ? safeParse(response.data) : response.data
+      },
+      recordedAt: new Date().toISOString()
+    };
+    const file = fixturePath(request);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf8');
+  };
+
+  try {
+    const response = await liveAdapter(config);
+    await save(response);
+    return response;
+  } catch (error: any) {
+    // Error statuses are recorded too, so replays fail the same way
+    if (error.response) {
+      await save(error.response);
+    }
+    throw error;
+  }
+};
+
+let announcedMode: HttpMode | undefined;
+
+/**
+ * Shared HTTP client for every outbound request (Helius, price APIs, Jupiter). The mode is
+ * checked per request, so HTTP_MODE set in `.env` applies even though the client is created
+ * when the module loads.
+ */
+export const httpClient = axios.create({
+  adapter: (config) => {
+    const mode = getHttpMode();
+    if (mode !== 'live' && announcedMode !== mode) {
+      announcedMode = mode;
+      console.error(`HTTP_MODE=${mode}: fixtures in ${getFixturesDir()}`);
+    }
+    return mode === 'replay' ? replayAdapter(config) : mode === 'record' ? recordAdapter(config) : liveAdapter(config);
+  }
+});
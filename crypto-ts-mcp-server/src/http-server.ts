@@ -0,0 +1,212 @@
+import http from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string; // Required as `Authorization: Bearer <token>` on every MCP request when set
+}
+
+interface Session {
+  transport: Transport;
+  server: McpServer;
+  kind: 'streamable-http' | 'sse';
+  createdAt: number;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Serves MCP over Streamable HTTP (`/mcp`) with a legacy SSE fallback (`GET /sse` + `POST /messages`).
+ * Every client session gets its own McpServer from `createServer`; the services behind the tools
+ * are shared, so all sessions use one price cache and one Helius quota.
+ */
+export class McpHttpServer {
+  private sessions: Map<string, Session> = new Map();
+  private httpServer: http.Server;
+  private startedAt = Date.now();
+
+  constructor(private createServer: () => McpServer, private options: HttpServerOptions) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (error instanceof HttpError) {
+          sendJson(res, error.status, jsonRpcError(error.message, error.code));
+          return;
+        }
+        console.error('❌ HTTP ERROR:', error);
+        if (!res.headersSent) {
+          sendJson(res, 500, jsonRpcError('Internal server error', -32603));
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  async close() {
+    for (const [sessionId, session] of this.sessions) {
+      await session.transport.close().catch(() => undefined);
+      this.sessions.delete(sessionId);
+    }
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000)
+      });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, jsonRpcError('Unauthorized'));
+      return;
+    }
+
+    if (pathname === '/mcp') {
+      await this.handleStreamableHttp(req, res);
+    } else if (pathname === '/sse' && req.method === 'GET') {
+      await this.openSseSession(res);
+    } else if (pathname === '/messages' && req.method === 'POST') {
+      await this.handleSseMessage(req, res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.options.authToken) return true;
+
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) return false;
+
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.options.authToken);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private async handleStreamableHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== 'streamable-http') {
+        sendJson(res, 404, jsonRpcError('Session not found'));
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJson(res, 400, jsonRpcError('Bad Request: No valid session ID provided'));
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, server, kind: 'streamable-http', createdAt: Date.now() });
+        console.log(`HTTP session ${id} opened (${this.sessions.size} active)`);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        console.log(`HTTP session ${transport.sessionId} closed (${this.sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSseSession(res: http.ServerResponse) {
+    const server = this.createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    this.sessions.set(transport.sessionId, { transport, server, kind: 'sse', createdAt: Date.now() });
+    console.log(`SSE session ${transport.sessionId} opened (${this.sessions.size} active)`);
+
+    res.on('close', () => {
+      if (this.sessions.delete(transport.sessionId)) {
+        console.log(`SSE session ${transport.sessionId} closed (${this.sessions.size} active)`);
+      }
+    });
+
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(req: http.IncomingMessage, res: http.ServerResponse) {
+    const sessionId = new URL(req.url ?? '/', 'http://localhost').searchParams.get('sessionId');
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse') {
+      sendJson(res, 404, jsonRpcError('Session not found'));
+      return;
+    }
+
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, await readJsonBody(req));
+  }
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Request errors answered with a JSON-RPC error body
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public code = -32000) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function jsonRpcError(message: string, code = -32000) {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
+
+/**
+ * Read and parse a JSON request body, undefined when the body is empty
+ */
+export async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Parse error: Invalid JSON', -32700);
+  }
+}
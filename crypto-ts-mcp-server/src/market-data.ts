@@ -0,0 +1,292 @@
+import { httpClient } from './http-client.js';
+import { AppError, toAppError } from './errors.js';
+import { coinGeckoClient } from './price-providers/index.js';
+import { normalizeVsCurrency } from './price-service.js';
+import type { CoinGeckoOptions, CoinRef } from './price-providers/index.js';
+import type { PriceService } from './price-service.js';
+
+export const CANDLE_INTERVALS = ['5m', '15m', '1h', '4h', '1d', '1w'] as const;
+
+export type CandleInterval = typeof CANDLE_INTERVALS[number];
+
+const INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '1d': 24 * 60 * 60,
+  '1w': 7 * 24 * 60 * 60
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+const MAX_CANDLES = 1000;
+const DEFAULT_HISTORY_SECONDS = 30 * DAY_SECONDS;
+// Unix time 0 was a Thursday, weekly candles open on Monday
+const WEEK_OFFSET_SECONDS = 4 * DAY_SECONDS;
+
+// Market snapshot of a coin, prices unrounded
+export interface MarketData {
+  id: string;
+  symbol: string;
+  name: string;
+  currency: string; // Quote currency, upper case
+  price: number;
+  marketCap?: number;
+  marketCapRank?: number;
+  volume24h?: number;
+  high24h?: number;
+  low24h?: number;
+  change24h?: number; // Percent
+  change7d?: number; // Percent
+  ath?: number; // All-time high in the quote currency
+  athDate?: string; // ISO timestamp
+  athDistance?: number; // Percent from the all-time high, negative below it
+  circulatingSupply?: number;
+  lastUpdated?: string; // ISO timestamp of CoinGecko's last refresh
+  source: string;
+}
+
+export interface Candle {
+  timestamp: number; // Unix seconds the candle opens at
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number; // Price points the candle was built from
+}
+
+export interface PriceCandles {
+  id: string;
+  symbol: string;
+  name: string;
+  currency: string;
+  interval: CandleInterval;
+  from: string; // ISO timestamps of the requested range
+  to: string;
+  candles: Candle[]; // Oldest first, intervals without data are skipped
+  change?: number; // Percent from the first open to the last close
+}
+
+export interface PriceCandlesOptions {
+  vsCurrency?: string;
+  from?: number; // Unix seconds, default 30 days before `to`
+  to?: number; // Unix seconds, default now
+  interval?: CandleInterval; // Default the finest interval that fits MAX_CANDLES
+}
+
+/**
+ * Spacing of the points CoinGecko's market_chart/range returns for a range: 5 minutes up to a
+ * day, hourly up to 90 days, daily beyond
+ */
+function sourceGranularity(rangeSeconds: number): number {
+  if (rangeSeconds <= DAY_SECONDS) return INTERVAL_SECONDS['5m'];
+  if (rangeSeconds <= 90 * DAY_SECONDS) return INTERVAL_SECONDS['1h'];
+  return INTERVAL_SECONDS['1d'];
+}
+
+function candleStart(timestamp: number, interval: CandleInterval): number {
+  const size = INTERVAL_SECONDS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET_SECONDS : 0;
+  return Math.floor((timestamp - offset) / size) * size + offset;
+}
+
+/**
+ * Aggregate ascending [unix seconds, price] points into OHLC candles
+ */
+export function buildCandles(points: [number, number][], interval: CandleInterval): Candle[] {
+  const candles: Candle[] = [];
+  for (const [timestamp, price] of points) {
+    const start = candleStart(timestamp, interval);
+    const current = candles[candles.length - 1];
+    if (current && current.timestamp === start) {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+      current.samples++;
+    } else {
+      candles.push({ timestamp: start, open: price, high: price, low: price, close: price, samples: 1 });
+    }
+  }
+  return candles;
+}
+
+const optionalNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Market snapshots and OHLC history from CoinGecko at full precision. Coins are resolved
+ * through the price service, so symbols and names work as they do for spot prices.
+ */
+export class MarketDataService {
+  readonly source = 'coingecko-api';
+  private requestTimeout: number = 10000;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private cache: Record<string, { data: MarketData | PriceCandles, timestamp: number }> = {};
+
+  constructor(private priceService: PriceService, options: CoinGeckoOptions = {}, private cacheTtlMs: number = 60000) {
+    ({ baseUrl: this.baseUrl, headers: this.headers } = coinGeckoClient(options));
+  }
+
+  /**
+   * Price, market cap, volume, 24h/7d change and distance from the all-time high
+   */
+  async getMarketData(cryptoId: string, vsCurrency?: string): Promise<MarketData> {
+    const coin = await this.resolve(cryptoId);
+    const vs = normalizeVsCurrency(vsCurrency);
+    const cacheKey = `market:${coin.id}:${vs}`;
+    const cached = this.cached<MarketData>(cacheKey);
+    if (cached) return cached;
+
+    console.log(`API CALL: Fetching ${vs.toUpperCase()} market data for ${coin.id}`);
+    const data = await this.request(coin.id, '/coins/markets', {
+      ids: coin.id,
+      vs_currency: vs,
+      price_change_percentage: '24h,7d',
+      precision: 'full'
+    });
+    const entry = Array.isArray(data) ? data.find((item: any) => item?.id === coin.id) : undefined;
+    if (!entry || optionalNumber(entry.current_price) === undefined) {
+      throw new AppError('unknown_coin', `CoinGecko has no ${vs.toUpperCase()} market data for "${coin.id}"`, {
+        hint: 'Check the coin id with searchCrypto, or quote in a currency CoinGecko supports'
+      });
+    }
+
+    const result: MarketData = {
+      id: coin.id,
+      symbol: String(entry.symbol ?? coin.symbol ?? coin.id).toUpperCase(),
+      name: entry.name ?? coin.name ?? coin.id,
+      currency: vs.toUpperCase(),
+      price: entry.current_price,
+      marketCap: optionalNumber(entry.market_cap),
+      marketCapRank: optionalNumber(entry.market_cap_rank),
+      volume24h: optionalNumber(entry.total_volume),
+      high24h: optionalNumber(entry.high_24h),
+      low24h: optionalNumber(entry.low_24h),
+      change24h: optionalNumber(entry.price_change_percentage_24h_in_currency) ?? optionalNumber(entry.price_change_percentage_24h),
+      change7d: optionalNumber(entry.price_change_percentage_7d_in_currency),
+      ath: optionalNumber(entry.ath),
+      athDate: entry.ath_date || undefined,
+      athDistance: optionalNumber(entry.ath_change_percentage),
+      circulatingSupply: optionalNumber(entry.circulating_supply),
+      lastUpdated: entry.last_updated || undefined,
+      source: this.source
+    };
+    // Drop unknown fields so the structured result only carries what CoinGecko reported
+    for (const key of Object.keys(result) as (keyof MarketData)[]) {
+      if (result[key] === undefined) delete result[key];
+    }
+
+    this.store(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * OHLC candles for a range, built from CoinGecko's market_chart/range price points. The
+   * interval cannot be finer than the points CoinGecko returns for the range.
+   */
+  async getCandles(cryptoId: string, options: PriceCandlesOptions = {}): Promise<PriceCandles> {
+    // Whole minutes, so repeated calls for a range ending now share the cache
+    const now = Math.floor(Date.now() / 60000) * 60;
+    const to = Math.min(options.to ?? now, now);
+    const from = options.from ?? to - DEFAULT_HISTORY_SECONDS;
+    if (from >= to) {
+      throw new AppError('invalid_input', 'The history range is empty, `from` must be before `to` and in the past');
+    }
+
+    const range = to - from;
+    const granularity = sourceGranularity(range);
+    const interval = options.interval ?? CANDLE_INTERVALS.find(candidate =>
+      INTERVAL_SECONDS[candidate] >= granularity && range / INTERVAL_SECONDS[candidate] <= MAX_CANDLES
+    ) ?? '1w';
+    if (INTERVAL_SECONDS[interval] < granularity) {
+      throw new AppError('invalid_input', `${interval} candles need a shorter range, CoinGecko returns ${granularity / 60}-minute points for ${Math.ceil(range / DAY_SECONDS)} days`, {
+        hint: 'Use up to 1 day for 5m/15m candles and up to 90 days for 1h/4h candles'
+      });
+    }
+    if (range / INTERVAL_SECONDS[interval] > MAX_CANDLES) {
+      throw new AppError('invalid_input', `The range spans more than ${MAX_CANDLES} ${interval} candles`, {
+        hint: 'Pick a coarser interval or a shorter range'
+      });
+    }
+
+    const coin = await this.resolve(cryptoId);
+    const vs = normalizeVsCurrency(options.vsCurrency);
+    const cacheKey = `candles:${coin.id}:${vs}:${interval}:${from}:${to}`;
+    const cached = this.cached<PriceCandles>(cacheKey);
+    if (cached) return cached;
+
+    console.log(`API CALL: Fetching ${vs.toUpperCase()} price history for ${coin.id} from ${new Date(from * 1000).toISOString()}`);
+    // Bounds taken from the clock change on every call; fixtures match ranges ending now without them
+    const endsNow = options.to === undefined || options.to >= now;
+    const clockParams = !endsNow ? [] : options.from === undefined ? ['from', 'to'] : ['to'];
+    const data = await this.request(coin.id, `/coins/${encodeURIComponent(coin.id)}/market_chart/range`, {
+      vs_currency: vs,
+      from,
+      to,
+      precision: 'full'
+    }, clockParams);
+    const points: [number, number][] = (Array.isArray(data?.prices) ? data.prices : [])
+      .filter((point: unknown): point is [number, number] => Array.isArray(point) && typeof point[1] === 'number')
+      .map(([millis, price]: [number, number]) => [Math.floor(millis / 1000), price] as [number, number])
+      .sort((a: [number, number], b: [number, number]) => a[0] - b[0]);
+
+    const candles = buildCandles(points, interval);
+    const first = candles[0];
+    const last = candles[candles.length - 1];
+    const result: PriceCandles = {
+      id: coin.id,
+      symbol: (coin.symbol ?? coin.id).toUpperCase(),
+      name: coin.name ?? coin.id,
+      currency: vs.toUpperCase(),
+      interval,
+      from: new Date(from * 1000).toISOString(),
+      to: new Date(to * 1000).toISOString(),
+      candles,
+      ...(first && last && first.open !== 0 ? { change: (last.close / first.open - 1) * 100 } : {})
+    };
+
+    this.store(cacheKey, result);
+    return result;
+  }
+
+  private async resolve(cryptoId: string): Promise<CoinRef> {
+    const coin = await this.priceService.resolveCoin(cryptoId);
+    if ('error' in coin) throw coin.error;
+    return coin;
+  }
+
+  private cached<T extends MarketData | PriceCandles>(cacheKey: string): T | undefined {
+    const cached = this.cache[cacheKey];
+    if (cached && Date.now() - cached.timestamp < this.cacheTtlMs) {
+      console.log(`CACHE HIT: Using cached data for ${cacheKey}`);
+      return cached.data as T;
+    }
+    return undefined;
+  }
+
+  // Expired entries are dropped on every write, so ranges asked for once do not pile up
+  private store(cacheKey: string, data: MarketData | PriceCandles) {
+    const now = Date.now();
+    for (const [key, entry] of Object.entries(this.cache)) {
+      if (now - entry.timestamp >= this.cacheTtlMs) delete this.cache[key];
+    }
+    this.cache[cacheKey] = { data, timestamp: now };
+  }
+
+  private async request(coinId: string, path: string, params: Record<string, string | number>, fixtureIgnoreParams?: string[]): Promise<any> {
+    try {
+      const response = await httpClient.get(`${this.baseUrl}${path}`, {
+        params,
+        timeout: this.requestTimeout,
+        headers: this.headers,
+        fixtureIgnoreParams
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new AppError('unknown_coin', `CoinGecko does not know "${coinId}"`, { cause: error });
+      }
+      throw toAppError(error);
+    }
+  }
+}
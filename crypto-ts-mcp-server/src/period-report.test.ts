@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PeriodReporter } from './period-report.js';
+import type { PeriodReportOptions } from './period-report.js';
+import type { TokenRegistry } from './token-registry.js';
+import type { WalletAnalyzer } from './wallet-analyzer.js';
+
+const WALLET = 'GfsJWjmGXMfct8JMR9Lm9ySUnniZbnGUTQDbT8ipWf9U';
+
+// A wallet without trades: only the period bounds and labels matter here
+const reporter = new PeriodReporter(
+  { async analyzeWallet() { return { tradeHistory: [], historyTruncated: false }; } } as unknown as WalletAnalyzer,
+  {} as TokenRegistry
+);
+const build = (options: PeriodReportOptions) => reporter.build(WALLET, options);
+
+test('day reports span local midnight to midnight on DST days', async () => {
+  const newYork = await build({ period: 'day', date: '2025-03-09', timeZone: 'America/New_York' });
+  assert.deepEqual(newYork.range, { label: '2025-03-09', start: '2025-03-09T05:00:00.000Z', end: '2025-03-10T04:00:00.000Z' });
+  assert.equal(newYork.buckets.length, 23);
+
+  const berlin = await build({ period: 'day', date: '2025-10-26', timeZone: 'Europe/Berlin' });
+  assert.deepEqual(berlin.range, { label: '2025-10-26', start: '2025-10-25T22:00:00.000Z', end: '2025-10-26T23:00:00.000Z' });
+  assert.equal(berlin.buckets.length, 25);
+});
+
+test('a day starting at the end of a midnight DST gap leaves out the previous evening', async () => {
+  const santiago = await build({ period: 'day', date: '2025-09-07', timeZone: 'America/Santiago' });
+  assert.deepEqual(santiago.range, { label: '2025-09-07', start: '2025-09-07T04:00:00.000Z', end: '2025-09-08T03:00:00.000Z' });
+  assert.equal(santiago.buckets[0].label, '01:00');
+  assert.equal(santiago.buckets.length, 23);
+  assert.deepEqual(santiago.previousRange, { label: '2025-09-06', start: '2025-09-06T04:00:00.000Z', end: '2025-09-07T04:00:00.000Z' });
+
+  const week = await build({ period: 'week', date: '2025-09-10', timeZone: 'America/Santiago' });
+  assert.equal(week.range.label, '2025-W37');
+  assert.equal(week.previousRange.end, '2025-09-08T03:00:00.000Z');
+  assert.equal(week.buckets[0].label, '2025-09-08');
+
+  const month = await build({ period: 'month', date: '2025-09-20', timeZone: 'America/Santiago' });
+  assert.deepEqual(month.range, { label: '2025-09', start: '2025-09-01T04:00:00.000Z', end: '2025-10-01T03:00:00.000Z' });
+  assert.equal(month.buckets.find(bucket => bucket.label === '2025-09-07')?.start, '2025-09-07T04:00:00.000Z');
+});
+
+test('ISO week labels belong to the year of the week\'s Thursday', async () => {
+  const label = async (date: string) => (await build({ period: 'week', date, timeZone: 'Europe/Berlin' })).range.label;
+  assert.equal(await label('2024-12-30'), '2025-W01');
+  assert.equal(await label('2025-01-05'), '2025-W01');
+  assert.equal(await label('2021-01-03'), '2020-W53');
+  assert.equal(await label('2026-12-31'), '2026-W53');
+  assert.equal(await label('2027-01-04'), '2027-W01');
+  assert.equal(await label('2025-12-29'), '2026-W01');
+});
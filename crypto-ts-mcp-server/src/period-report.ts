@@ -0,0 +1,293 @@
+import { SOL_MINT } from './position-ledger.js';
+import { AppError } from './errors.js';
+import { assertTimeZone, zonedDateTime, zonedTimestamp, formatZonedDate, formatZonedDateTime } from './time-zone.js';
+import type { WalletAnalyzer, TradeInfo, AnalyzeOptions } from './wallet-analyzer.js';
+import type { TokenRegistry } from './token-registry.js';
+
+export const REPORT_PERIODS = ['day', 'week', 'month'] as const;
+
+export type ReportPeriod = typeof REPORT_PERIODS[number];
+
+export const REPORT_FORMATS = ['text', 'markdown'] as const;
+
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface PeriodReportOptions extends Omit<AnalyzeOptions, 'from' | 'to'> {
+  period?: ReportPeriod; // Default 'day'
+  date?: string; // YYYY-MM-DD in the time zone, any day inside the period (default today)
+  timeZone?: string; // IANA name (default 'UTC')
+}
+
+export interface PeriodTrade {
+  signature: string;
+  timestamp: number;
+  localTime: string; // YYYY-MM-DD HH:mm in the report's time zone
+  tokenInSymbol: string;
+  tokenOutSymbol: string;
+  amountIn?: number;
+  amountOut?: number;
+  profitLoss?: number; // Realized P/L in SOL
+  profitLossUsd?: number;
+}
+
+export interface PeriodMetrics {
+  trades: number;
+  closedTrades: number; // Sells that realized P/L
+  profitableTrades: number;
+  volumeSol: number; // SOL legs of trades priced in SOL
+  volumeUsd: number; // USD value of the sold legs
+  realizedProfitLoss: number; // SOL
+  realizedProfitLossUsd: number;
+  fees: number; // SOL
+  bestTrade?: PeriodTrade; // Highest realized P/L in SOL
+  worstTrade?: PeriodTrade;
+}
+
+export interface PeriodRange {
+  label: string; // '2025-04-01', '2025-W14' or '2025-04'
+  start: string; // ISO timestamp, inclusive
+  end: string; // ISO timestamp, exclusive
+}
+
+export interface ReportBucket extends PeriodMetrics {
+  label: string; // Local hour ('14:00') in day reports, local date in week and month reports
+  start: string;
+  end: string;
+}
+
+export interface PeriodReport {
+  walletAddress: string;
+  period: ReportPeriod;
+  timeZone: string;
+  generatedAt: string; // ISO timestamp
+  range: PeriodRange;
+  current: PeriodMetrics;
+  previousRange: PeriodRange;
+  previous: PeriodMetrics;
+  change: { trades: number; volumeSol: number; volumeUsd: number; realizedProfitLoss: number; realizedProfitLossUsd: number }; // Current minus previous
+  buckets: ReportBucket[]; // Hours of a day, days of a week or month
+  historyTruncated: boolean;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Calendar day, ISO week (Monday to Sunday) or month containing `date` in the time zone, and the
+ * one before it. Boundaries are local midnights, so DST days are 23 or 25 hours long.
+ */
+function periodBounds(period: ReportPeriod, date: string, timeZone: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    throw new AppError('invalid_input', `Invalid date "${date}", use YYYY-MM-DD`);
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+
+  const midnight = (offsetDays: number, offsetMonths = 0) => period === 'month'
+    ? zonedTimestamp(year, month + offsetMonths, 1, 0, timeZone)
+    : zonedTimestamp(year, month, (period === 'week' ? day - weekday : day) + offsetDays, 0, timeZone);
+  const length = period === 'week' ? 7 : 1;
+
+  return {
+    start: midnight(0),
+    end: period === 'month' ? midnight(0, 1) : midnight(length),
+    previousStart: period === 'month' ? midnight(0, -1) : midnight(-length)
+  };
+}
+
+function periodLabel(period: ReportPeriod, start: number, timeZone: string): string {
+  const local = zonedDateTime(start, timeZone);
+  if (period === 'day') return formatZonedDate(start, timeZone);
+  if (period === 'month') return `${local.year}-${String(local.month).padStart(2, '0')}`;
+
+  // ISO week: the week (starting on `start`, a Monday) belongs to the year of its Thursday
+  const thursday = Date.UTC(local.year, local.month - 1, local.day + 3);
+  const thursdayYear = new Date(thursday).getUTCFullYear();
+  const week = Math.floor((thursday - Date.UTC(thursdayYear, 0, 1)) / (7 * 86400000)) + 1;
+  return `${thursdayYear}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Bucket start timestamps: every hour of a day report, every local midnight of a week or month
+ */
+function bucketStarts(period: ReportPeriod, start: number, end: number, timeZone: string): number[] {
+  const starts: number[] = [];
+  if (period === 'day') {
+    for (let timestamp = start; timestamp < end; timestamp += 3600) starts.push(timestamp);
+    return starts;
+  }
+  const first = zonedDateTime(start, timeZone);
+  for (let day = 0; ; day++) {
+    const timestamp = zonedTimestamp(first.year, first.month, first.day + day, 0, timeZone);
+    if (timestamp >= end) return starts;
+    starts.push(timestamp);
+  }
+}
+
+const isoTime = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+/**
+ * Builds trading reports for a calendar day, week or month in the caller's time zone, compared
+ * against the period before and broken down per hour or day. P/L comes from an analysis of the
+ * whole stored history up to the end of the period, so sells have their cost basis.
+ */
+export class PeriodReporter {
+  constructor(private walletAnalyzer: WalletAnalyzer, private tokenRegistry: TokenRegistry) {}
+
+  async build(walletAddress: string, options: PeriodReportOptions = {}): Promise<PeriodReport> {
+    const { period = 'day', date, timeZone = 'UTC', ...analyzeOptions } = options;
+    assertTimeZone(timeZone);
+
+    const { start, end, previousStart } = periodBounds(period, date ?? formatZonedDate(Math.floor(Date.now() / 1000), timeZone), timeZone);
+    const stats = await this.walletAnalyzer.analyzeWallet(walletAddress, { ...analyzeOptions, to: end - 1 });
+    const between = (from: number, to: number) => stats.tradeHistory.filter(trade => trade.timestamp >= from && trade.timestamp < to);
+
+    const current = this.metrics(between(start, end), timeZone);
+    const previous = this.metrics(between(previousStart, start), timeZone);
+    const starts = bucketStarts(period, start, end, timeZone);
+
+    return {
+      walletAddress,
+      period,
+      timeZone,
+      generatedAt: new Date().toISOString(),
+      range: { label: periodLabel(period, start, timeZone), start: isoTime(start), end: isoTime(end) },
+      current,
+      previousRange: { label: periodLabel(period, previousStart, timeZone), start: isoTime(previousStart), end: isoTime(start) },
+      previous,
+      change: {
+        trades: current.trades - previous.trades,
+        volumeSol: current.volumeSol - previous.volumeSol,
+        volumeUsd: current.volumeUsd - previous.volumeUsd,
+        realizedProfitLoss: current.realizedProfitLoss - previous.realizedProfitLoss,
+        realizedProfitLossUsd: current.realizedProfitLossUsd - previous.realizedProfitLossUsd
+      },
+      buckets: starts.map((bucketStart, index) => {
+        const bucketEnd = starts[index + 1] ?? end;
+        const local = zonedDateTime(bucketStart, timeZone);
+        return {
+          label: period === 'day' ? `${String(local.hour).padStart(2, '0')}:00` : formatZonedDate(bucketStart, timeZone),
+          start: isoTime(bucketStart),
+          end: isoTime(bucketEnd),
+          ...this.metrics(between(bucketStart, bucketEnd), timeZone)
+        };
+      }),
+      historyTruncated: stats.historyTruncated
+    };
+  }
+
+  private metrics(trades: TradeInfo[], timeZone: string): PeriodMetrics {
+    const metrics: PeriodMetrics = {
+      trades: trades.length,
+      closedTrades: 0,
+      profitableTrades: 0,
+      volumeSol: 0,
+      volumeUsd: 0,
+      realizedProfitLoss: 0,
+      realizedProfitLossUsd: 0,
+      fees: 0
+    };
+    let best: TradeInfo | undefined;
+    let worst: TradeInfo | undefined;
+
+    for (const trade of trades) {
+      metrics.volumeSol += trade.tokenIn === SOL_MINT ? trade.amountIn ?? 0 : trade.tokenOut === SOL_MINT ? trade.amountOut ?? 0 : 0;
+      metrics.volumeUsd += trade.valueInUsd ?? trade.valueOutUsd ?? 0;
+      metrics.realizedProfitLossUsd += trade.profitLossUsd ?? 0;
+      metrics.fees += trade.fee ?? 0;
+
+      if (trade.profitLoss === undefined) continue;
+      metrics.closedTrades++;
+      metrics.realizedProfitLoss += trade.profitLoss;
+      if (trade.profitLoss > EPSILON) metrics.profitableTrades++;
+      if (!best || trade.profitLoss > best.profitLoss!) best = trade;
+      if (!worst || trade.profitLoss < worst.profitLoss!) worst = trade;
+    }
+
+    if (best) metrics.bestTrade = this.periodTrade(best, timeZone);
+    if (worst) metrics.worstTrade = this.periodTrade(worst, timeZone);
+    return metrics;
+  }
+
+  private periodTrade(trade: TradeInfo, timeZone: string): PeriodTrade {
+    return {
+      signature: trade.signature,
+      timestamp: trade.timestamp,
+      localTime: formatZonedDateTime(trade.timestamp, timeZone),
+      tokenInSymbol: this.tokenRegistry.symbol(trade.tokenIn),
+      tokenOutSymbol: this.tokenRegistry.symbol(trade.tokenOut),
+      ...(trade.amountIn !== undefined ? { amountIn: trade.amountIn } : {}),
+      ...(trade.amountOut !== undefined ? { amountOut: trade.amountOut } : {}),
+      ...(trade.profitLoss !== undefined ? { profitLoss: trade.profitLoss } : {}),
+      ...(trade.profitLossUsd !== undefined ? { profitLossUsd: trade.profitLossUsd } : {})
+    };
+  }
+}
+
+const sol = (value: number) => `${value.toFixed(4)} SOL`;
+const usd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const signed = (value: number, format: (value: number) => string) => `${value > EPSILON ? '+' : ''}${format(value)}`;
+
+function describeTrade(trade: PeriodTrade): string {
+  return `${trade.tokenInSymbol} → ${trade.tokenOutSymbol} at ${trade.localTime}: ${sol(trade.profitLoss ?? 0)}` +
+    (trade.profitLossUsd !== undefined ? ` (${usd(trade.profitLossUsd)})` : '');
+}
+
+/**
+ * Render a period report as plain text or Markdown. Buckets without trades are left out.
+ */
+export function formatPeriodReport(report: PeriodReport, format: ReportFormat = 'text'): string {
+  const { current, previous, change } = report;
+  const title = `${report.period === 'day' ? 'Daily' : report.period === 'week' ? 'Weekly' : 'Monthly'} Trading Report ${report.range.label} (${report.timeZone})`;
+  const active = report.buckets.filter(bucket => bucket.trades > 0);
+  const winRate = (metrics: PeriodMetrics) => metrics.closedTrades > 0 ? `${((metrics.profitableTrades / metrics.closedTrades) * 100).toFixed(1)}%` : 'n/a';
+
+  const summary: [string, string, string, string][] = [
+    ['Trades', String(current.trades), String(previous.trades), signed(change.trades, String)],
+    ['Volume (SOL)', sol(current.volumeSol), sol(previous.volumeSol), signed(change.volumeSol, sol)],
+    ['Volume (USD)', usd(current.volumeUsd), usd(previous.volumeUsd), signed(change.volumeUsd, usd)],
+    ['Realized P/L', sol(current.realizedProfitLoss), sol(previous.realizedProfitLoss), signed(change.realizedProfitLoss, sol)],
+    ['Realized P/L (USD)', usd(current.realizedProfitLossUsd), usd(previous.realizedProfitLossUsd), signed(change.realizedProfitLossUsd, usd)],
+    ['Win rate', winRate(current), winRate(previous), ''],
+    ['Fees', `${current.fees.toFixed(6)} SOL`, `${previous.fees.toFixed(6)} SOL`, '']
+  ];
+  const truncated = report.historyTruncated ? 'History truncated: trades before the stored history have no cost basis, raise maxTransactions for more.' : '';
+
+  if (format === 'markdown') {
+    const table = (headers: string[], rows: string[][]) =>
+      [headers, headers.map(() => '---'), ...rows].map(row => `| ${row.join(' | ')} |`).join('\n');
+    return [
+      `## ${title}`,
+      `Wallet \`${report.walletAddress}\` · ${report.range.start} to ${report.range.end}`,
+      table(['', report.range.label, `Previous (${report.previousRange.label})`, 'Change'], summary),
+      `**Best trade:** ${current.bestTrade ? describeTrade(current.bestTrade) : 'n/a'}  \n**Worst trade:** ${current.worstTrade ? describeTrade(current.worstTrade) : 'n/a'}`,
+      `### By ${report.period === 'day' ? 'Hour' : 'Day'}`,
+      active.length > 0
+        ? table(['', 'Trades', 'Volume (SOL)', 'Realized P/L', 'Best', 'Worst'], active.map(bucket => [
+            bucket.label,
+            String(bucket.trades),
+            bucket.volumeSol.toFixed(4),
+            sol(bucket.realizedProfitLoss),
+            bucket.bestTrade ? sol(bucket.bestTrade.profitLoss ?? 0) : '',
+            bucket.worstTrade ? sol(bucket.worstTrade.profitLoss ?? 0) : ''
+          ]))
+        : '_No trades in this period._',
+      ...(truncated ? [`> ${truncated}`] : [])
+    ].join('\n\n') + '\n';
+  }
+
+  return `
+=== ${title} ===
+Wallet: ${report.walletAddress}
+Period: ${report.range.start} to ${report.range.end} (previous: ${report.previousRange.label})
+${summary.map(([label, now, before, delta]) => `${label}: ${now} (previous ${before}${delta ? `, ${delta}` : ''})`).join('\n')}
+Best Trade: ${current.bestTrade ? describeTrade(current.bestTrade) : 'n/a'}
+Worst Trade: ${current.worstTrade ? describeTrade(current.worstTrade) : 'n/a'}
+
+By ${report.period === 'day' ? 'Hour' : 'Day'}:
+${active.map(bucket =>
+  `   ${bucket.label}: ${bucket.trades} trades, ${sol(bucket.volumeSol)} volume, P/L ${sol(bucket.realizedProfitLoss)}` +
+    (bucket.bestTrade ? `, best ${sol(bucket.bestTrade.profitLoss ?? 0)}, worst ${sol(bucket.worstTrade?.profitLoss ?? 0)}` : '')
+).join('\n') || '   No trades'}${truncated ? `\n\n${truncated}` : ''}
+`;
+}
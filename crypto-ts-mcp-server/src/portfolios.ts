@@ -0,0 +1,208 @@
+import { readJsonFile, writeJsonFile } from './storage.js';
+import { SOL_MINT } from './position-ledger.js';
+import { assertSolanaAddress } from './solana-address.js';
+import { AppError } from './errors.js';
+import type { WalletAnalyzer, WalletStats, WalletHistory, TradeInfo, AnalyzeOptions } from './wallet-analyzer.js';
+
+export interface PortfolioWallet {
+  address: string;
+  label?: string;
+}
+
+export interface Portfolio {
+  name: string;
+  wallets: PortfolioWallet[];
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+// A transfer between two wallets of the same portfolio
+export interface InternalTransfer {
+  signature: string;
+  timestamp: number;
+  from: string;
+  to: string;
+  mint: string; // SOL_MINT for native SOL
+  amount: number;
+}
+
+export interface PortfolioAnalysis {
+  name: string;
+  combined: WalletStats; // All wallets replayed through one ledger, so lots move with the tokens
+  wallets: (PortfolioWallet & { stats: WalletStats })[];
+  internalTransfers: InternalTransfer[]; // Oldest first
+  excludedTrades: number; // Trades dropped because their transaction moved funds between our wallets
+}
+
+const CACHE_FILE = 'portfolios.json';
+const PORTFOLIO_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Named sets of wallets, persisted to `portfolios.json`, analyzed as one book. Transfers between
+ * the portfolio's own wallets are not trades, so transactions carrying them are left out of
+ * trade counts and P/L.
+ */
+export class PortfolioManager {
+  private portfolios: Map<string, Portfolio> = new Map();
+  private loaded: Promise<void> | null = null;
+
+  constructor(private walletAnalyzer: WalletAnalyzer) {}
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<Portfolio[]>(CACHE_FILE, []).then(portfolios => {
+        this.portfolios = new Map(portfolios.map(portfolio => [portfolio.name, portfolio]));
+      });
+    }
+    return this.loaded;
+  }
+
+  async list(): Promise<Portfolio[]> {
+    await this.load();
+    return [...this.portfolios.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<Portfolio | undefined> {
+    await this.load();
+    return this.portfolios.get(name);
+  }
+
+  /**
+   * Create the portfolio, or replace the wallets of an existing one
+   */
+  async save(name: string, wallets: PortfolioWallet[]): Promise<Portfolio> {
+    await this.load();
+
+    if (!PORTFOLIO_NAME.test(name)) {
+      throw new AppError('invalid_input', `Invalid portfolio name "${name}", use up to 64 letters, digits, "-" or "_"`);
+    }
+    const unique = new Map<string, PortfolioWallet>();
+    for (const wallet of wallets) {
+      assertSolanaAddress(wallet.address);
+      unique.set(wallet.address, wallet.label ? { address: wallet.address, label: wallet.label } : { address: wallet.address });
+    }
+    if (unique.size === 0) {
+      throw new AppError('invalid_input', 'A portfolio needs at least one wallet');
+    }
+
+    const now = new Date().toISOString();
+    const portfolio: Portfolio = {
+      name,
+      wallets: [...unique.values()],
+      createdAt: this.portfolios.get(name)?.createdAt ?? now,
+      updatedAt: now
+    };
+    this.portfolios.set(name, portfolio);
+    await this.persist();
+    return portfolio;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    await this.load();
+    const deleted = this.portfolios.delete(name);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async analyze(name: string, options: AnalyzeOptions = {}): Promise<PortfolioAnalysis> {
+    const portfolio = await this.get(name);
+    if (!portfolio) {
+      throw new AppError('not_found', `Portfolio "${name}" not found`, { hint: 'Create it with savePortfolio or pick one from listPortfolios' });
+    }
+
+    // Wallets are synced one after another so they share the Helius quota politely
+    const histories: WalletHistory[] = [];
+    for (const wallet of portfolio.wallets) {
+      histories.push(await this.walletAnalyzer.loadHistory(wallet.address, options));
+    }
+
+    const internalTransfers = findInternalTransfers(histories, new Set(portfolio.wallets.map(wallet => wallet.address)));
+    const internal = new Set(internalTransfers.map(transfer => transfer.signature));
+
+    const currentPrices = await this.walletAnalyzer.currentPrices(portfolio.wallets.map(wallet => wallet.address));
+
+    const wallets: PortfolioAnalysis['wallets'] = [];
+    let excludedTrades = 0;
+    for (const [index, history] of histories.entries()) {
+      const trades = history.trades.filter(trade => !internal.has(trade.signature));
+      excludedTrades += history.trades.length - trades.length;
+      const { stats } = await this.walletAnalyzer.analyzeTrades(trades, {
+        accountingMethod: options.accountingMethod,
+        transactionsInRange: history.transactions.length,
+        historyTruncated: history.truncated,
+        activities: history.activities.filter(activity => !internal.has(activity.signature)),
+        currentPrices
+      });
+      wallets.push({ ...portfolio.wallets[index], stats });
+    }
+
+    // A transaction touching two of our wallets shows up in both histories but counts once
+    const combinedTrades = new Map<string, TradeInfo>();
+    const signatures = new Set<string>();
+    for (const history of histories) {
+      history.transactions.forEach(tx => signatures.add(tx.signature));
+      for (const trade of history.trades) {
+        if (!internal.has(trade.signature) && !combinedTrades.has(trade.signature)) {
+          combinedTrades.set(trade.signature, { ...trade }); // Copies, the combined replay sets its own P/L
+        }
+      }
+    }
+    const { stats: combined } = await this.walletAnalyzer.analyzeTrades(
+      [...combinedTrades.values()].sort((a, b) => b.timestamp - a.timestamp),
+      {
+        accountingMethod: options.accountingMethod,
+        transactionsInRange: signatures.size,
+        historyTruncated: histories.some(history => history.truncated),
+        // Each wallet's view of a transaction counts: an airdrop to two wallets opens two lots
+        activities: histories.flatMap(history => history.activities.filter(activity => !internal.has(activity.signature))),
+        currentPrices
+      }
+    );
+
+    return { name, combined, wallets, internalTransfers, excludedTrades };
+  }
+
+  private async persist() {
+    await writeJsonFile(CACHE_FILE, [...this.portfolios.values()]);
+  }
+}
+
+/**
+ * Token and native SOL transfers whose sender and receiver are both portfolio wallets
+ */
+function findInternalTransfers(histories: WalletHistory[], addresses: Set<string>): InternalTransfer[] {
+  const transfers = new Map<string, InternalTransfer>();
+  const isInternal = (transfer: any) => addresses.has(transfer.fromUserAccount) && addresses.has(transfer.toUserAccount)
+    && transfer.fromUserAccount !== transfer.toUserAccount;
+
+  for (const history of histories) {
+    for (const tx of history.transactions) {
+      const found: InternalTransfer[] = [
+        ...(tx.tokenTransfers || []).filter(isInternal).map((transfer: any) => ({
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          from: transfer.fromUserAccount,
+          to: transfer.toUserAccount,
+          mint: transfer.mint,
+          amount: Number(transfer.tokenAmount) || 0
+        })),
+        ...(tx.nativeTransfers || []).filter(isInternal).map((transfer: any) => ({
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          from: transfer.fromUserAccount,
+          to: transfer.toUserAccount,
+          mint: SOL_MINT,
+          amount: (Number(transfer.amount) || 0) / 1e9
+        }))
+      ];
+      // Both wallets see the same transaction; key by leg so it is listed once
+      for (const transfer of found) {
+        transfers.set(`${transfer.signature}:${transfer.from}:${transfer.to}:${transfer.mint}:${transfer.amount}`, transfer);
+      }
+    }
+  }
+
+  return [...transfers.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PositionLedger, SOL_MINT } from './position-ledger.js';
+import type { TradeInfo } from './wallet-analyzer.js';
+
+const TOKEN = 'Token11111111111111111111111111111111111111';
+const OTHER = 'Other11111111111111111111111111111111111111';
+
+let sequence = 0;
+const trade = (tokenIn: string, amountIn: number, tokenOut: string, amountOut: number): TradeInfo => ({
+  timestamp: 1700000000 + sequence,
+  type: 'SWAP',
+  signature: `sig${sequence++}`,
+  tokenIn,
+  amountIn,
+  tokenOut,
+  amountOut
+});
+
+test('a sell without known lots realizes nothing', () => {
+  const ledger = new PositionLedger();
+  assert.equal(ledger.applyTrade(trade(TOKEN, 100, SOL_MINT, 2)), undefined);
+
+  const [disposal] = ledger.getDisposals();
+  assert.equal(disposal.unmatchedAmount, 100);
+  assert.equal(disposal.profitLoss, 0);
+});
+
+test('a partly matched sell realizes P/L on the matched share', () => {
+  const ledger = new PositionLedger();
+  ledger.applyTrade(trade(SOL_MINT, 1, TOKEN, 50));
+  assert.equal(ledger.applyTrade(trade(TOKEN, 100, SOL_MINT, 4)), 1);
+});
+
+test('a token swap carries cost only for the matched share of the input', () => {
+  const ledger = new PositionLedger();
+  ledger.applyTrade(trade(SOL_MINT, 1, TOKEN, 50));
+  ledger.applyTrade(trade(TOKEN, 100, OTHER, 10));
+
+  const other = ledger.getPositions().find(position => position.mint === OTHER)!;
+  assert.equal(other.amountHeld, 5);
+  assert.equal(other.costBasis, 1);
+  assert.equal(other.lastPrice, undefined);
+
+  // Only the 5 tokens with a known cost count towards P/L
+  assert.equal(ledger.applyTrade(trade(OTHER, 10, SOL_MINT, 4)), 1);
+});
+
+test('a token swap without any known input opens no lot', () => {
+  const ledger = new PositionLedger();
+  ledger.applyTrade(trade(TOKEN, 100, OTHER, 10));
+  assert.equal(ledger.applyTrade(trade(OTHER, 10, SOL_MINT, 4)), undefined);
+});
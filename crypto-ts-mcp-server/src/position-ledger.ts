@@ -0,0 +1,275 @@
+import type { TradeInfo } from './wallet-analyzer.js';
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export type AccountingMethod = 'fifo' | 'lifo' | 'average';
+
+// Currency the ledger measures cost and P/L in
+export type LedgerQuote = 'SOL' | 'USD';
+
+// A quantity of a token acquired in a single trade
+interface Lot {
+  amount: number;
+  cost: number;
+  timestamp: number;
+  signature: string;
+}
+
+// The part of a lot consumed by a disposal
+export interface DisposedLot {
+  amount: number;
+  costBasis: number;
+  acquiredAt: number;
+  acquiredSignature: string;
+}
+
+export interface Disposal {
+  mint: string;
+  amount: number;
+  proceeds: number; // In the ledger's quote currency
+  costBasis: number;
+  profitLoss: number;
+  timestamp: number;
+  signature: string;
+  lots: DisposedLot[];
+  unmatchedAmount: number; // Amount sold without a known acquisition (excluded from P/L)
+  unmatchedProceeds: number; // Proceeds of the unmatched amount
+}
+
+export interface TokenPosition {
+  mint: string;
+  amountHeld: number;
+  costBasis: number; // Cost of the amount still held, in the ledger's quote currency
+  averageCost: number; // Quote per token
+  lastPrice?: number; // Quote per token, from the last trade or a supplied current price
+  realizedProfitLoss: number;
+  unrealizedProfitLoss: number;
+  buys: number;
+  sells: number;
+}
+
+interface MintState {
+  lots: Lot[];
+  realizedProfitLoss: number;
+  lastPrice?: number;
+  buys: number;
+  sells: number;
+}
+
+const isSol = (mint?: string) => mint === SOL_MINT || mint === 'SOL';
+const normalizeSol = (mint: string) => isSol(mint) ? SOL_MINT : mint;
+
+/**
+ * Tracks acquisition lots per mint across a trade history and computes realized P/L
+ * on every sell using FIFO, LIFO or average-cost accounting.
+ * Trades must be applied in chronological order.
+ *
+ * A SOL ledger treats SOL as the quote currency: buys and sells against SOL open and
+ * close lots. A USD ledger treats SOL like any other asset and values both legs of every
+ * swap at their USD value, so SOL's own price moves show up in P/L.
+ */
+export class PositionLedger {
+  private mints: Map<string, MintState> = new Map();
+  private disposals: Disposal[] = [];
+
+  constructor(private method: AccountingMethod = 'fifo', private quote: LedgerQuote = 'SOL') {}
+
+  /**
+   * Apply a swap to the ledger. Returns the realized P/L when the trade closed
+   * (part of) a position, undefined otherwise.
+   */
+  applyTrade(trade: TradeInfo): number | undefined {
+    const { tokenIn, tokenOut, amountIn, amountOut } = trade;
+    if (!tokenIn || !tokenOut || !amountIn || !amountOut) return undefined;
+    if (isSol(tokenIn) && isSol(tokenOut)) return undefined;
+
+    if (this.quote === 'USD') {
+      return this.applyUsdTrade(trade, tokenIn, tokenOut, amountIn, amountOut);
+    }
+
+    // Buying a token with SOL opens a lot at the SOL paid
+    if (isSol(tokenIn)) {
+      this.addLot(tokenOut, amountOut, amountIn, trade);
+      return undefined;
+    }
+
+    // Selling a token for SOL realizes P/L against the consumed lots; without any it closed nothing
+    if (isSol(tokenOut)) {
+      const disposal = this.dispose(tokenIn, amountIn, amountOut, trade);
+      return disposal.unmatchedAmount < amountIn ? disposal.profitLoss : undefined;
+    }
+
+    // Token → token: no SOL leg to price the trade, so the cost basis carries over. Only the share
+    // bought with tokens of known cost opens a lot; the rest stays unmatched when it is sold.
+    const carried = this.consume(tokenIn, amountIn);
+    const matchedIn = carried.reduce((sum, lot) => sum + lot.amount, 0);
+    const carriedCost = carried.reduce((sum, lot) => sum + lot.costBasis, 0);
+    this.addLot(tokenOut, amountOut * (matchedIn / amountIn), carriedCost, trade, false);
+    return undefined;
+  }
+
+  /**
+   * Every swap disposes of the input asset at the USD value received and opens a lot
+   * of the output asset at the USD value given up
+   */
+  private applyUsdTrade(trade: TradeInfo, tokenIn: string, tokenOut: string, amountIn: number, amountOut: number) {
+    const valueOut = trade.valueOutUsd ?? trade.valueInUsd;
+    const valueIn = trade.valueInUsd ?? trade.valueOutUsd;
+    if (valueOut === undefined || valueIn === undefined) return undefined;
+
+    const disposal = this.dispose(normalizeSol(tokenIn), amountIn, valueOut, trade);
+    this.addLot(normalizeSol(tokenOut), amountOut, valueIn, trade);
+    return disposal.unmatchedAmount < amountIn ? disposal.profitLoss : undefined;
+  }
+
+  /**
+   * Tokens that arrived without a trade (a transfer in, airdrop or reward) open a lot at
+   * their value when received, in the ledger's quote currency. A SOL ledger does not track SOL.
+   */
+  receive(mint: string, amount: number, cost: number, at: Pick<TradeInfo, 'timestamp' | 'signature'>) {
+    if (amount <= 0 || (this.quote === 'SOL' && isSol(mint))) return;
+    const state = this.state(normalizeSol(mint));
+    state.lots.push({ amount, cost, timestamp: at.timestamp, signature: at.signature });
+    if (cost > 0) {
+      state.lastPrice = cost / amount;
+    }
+  }
+
+  /**
+   * Tokens that left without a trade (a transfer out) take their lots with them, so no
+   * P/L is realized and the remaining lots keep their cost
+   */
+  send(mint: string, amount: number) {
+    if (amount <= 0 || (this.quote === 'SOL' && isSol(mint))) return;
+    this.consume(normalizeSol(mint), amount);
+  }
+
+  getDisposals(): Disposal[] {
+    return this.disposals;
+  }
+
+  /**
+   * Open and closed positions per mint. Unrealized P/L uses `currentPrices` (quote per token)
+   * when supplied, otherwise the last traded price of the mint.
+   */
+  getPositions(currentPrices: Record<string, number> = {}): TokenPosition[] {
+    const positions: TokenPosition[] = [];
+
+    for (const [mint, state] of this.mints) {
+      const amountHeld = state.lots.reduce((sum, lot) => sum + lot.amount, 0);
+      const costBasis = state.lots.reduce((sum, lot) => sum + lot.cost, 0);
+      const lastPrice = currentPrices[mint] ?? state.lastPrice;
+
+      positions.push({
+        mint,
+        amountHeld,
+        costBasis,
+        averageCost: amountHeld > 0 ? costBasis / amountHeld : 0,
+        lastPrice,
+        realizedProfitLoss: state.realizedProfitLoss,
+        unrealizedProfitLoss: amountHeld > 0 && lastPrice !== undefined ? amountHeld * lastPrice - costBasis : 0,
+        buys: state.buys,
+        sells: state.sells
+      });
+    }
+
+    return positions;
+  }
+
+  private state(mint: string): MintState {
+    let state = this.mints.get(mint);
+    if (!state) {
+      state = { lots: [], realizedProfitLoss: 0, buys: 0, sells: 0 };
+      this.mints.set(mint, state);
+    }
+    return state;
+  }
+
+  /**
+   * Record a buy of the mint. A carried-over cost basis is not a price, so `priced` is false
+   * for token → token swaps and the last price is left alone.
+   */
+  private addLot(mint: string, amount: number, cost: number, trade: TradeInfo, priced = true) {
+    const state = this.state(mint);
+    if (amount > 1e-12) {
+      state.lots.push({ amount, cost, timestamp: trade.timestamp, signature: trade.signature });
+      if (priced) state.lastPrice = cost / amount;
+    }
+    state.buys++;
+  }
+
+  private dispose(mint: string, amount: number, proceeds: number, trade: TradeInfo): Disposal {
+    const state = this.state(mint);
+    const lots = this.consume(mint, amount);
+    const matchedAmount = lots.reduce((sum, lot) => sum + lot.amount, 0);
+    const costBasis = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+
+    // Only the share of the proceeds backed by known lots counts towards P/L
+    const matchedProceeds = proceeds * (matchedAmount / amount);
+    const profitLoss = matchedProceeds - costBasis;
+
+    const disposal: Disposal = {
+      mint,
+      amount,
+      proceeds: matchedProceeds,
+      costBasis,
+      profitLoss,
+      timestamp: trade.timestamp,
+      signature: trade.signature,
+      lots,
+      unmatchedAmount: amount - matchedAmount,
+      unmatchedProceeds: proceeds - matchedProceeds
+    };
+
+    state.realizedProfitLoss += profitLoss;
+    state.lastPrice = proceeds / amount;
+    state.sells++;
+    this.disposals.push(disposal);
+    return disposal;
+  }
+
+  /**
+   * Remove `amount` of a mint from its lots in accounting order and return the consumed pieces
+   */
+  private consume(mint: string, amount: number): DisposedLot[] {
+    const state = this.state(mint);
+    const consumed: DisposedLot[] = [];
+
+    const totalAmount = state.lots.reduce((sum, lot) => sum + lot.amount, 0);
+    const totalCost = state.lots.reduce((sum, lot) => sum + lot.cost, 0);
+    const averageCost = totalAmount > 0 ? totalCost / totalAmount : 0;
+
+    let remaining = amount;
+    while (remaining > 1e-12 && state.lots.length > 0) {
+      // LIFO takes the newest lot, FIFO and average cost walk lots oldest first
+      const index = this.method === 'lifo' ? state.lots.length - 1 : 0;
+      const lot = state.lots[index];
+      const taken = Math.min(lot.amount, remaining);
+      const unitCost = this.method === 'average' ? averageCost : lot.cost / lot.amount;
+
+      consumed.push({
+        amount: taken,
+        costBasis: taken * unitCost,
+        acquiredAt: lot.timestamp,
+        acquiredSignature: lot.signature
+      });
+
+      lot.cost -= lot.cost * (taken / lot.amount);
+      lot.amount -= taken;
+      remaining -= taken;
+
+      if (lot.amount <= 1e-12) {
+        state.lots.splice(index, 1);
+      }
+    }
+
+    // Average cost does not change on a disposal, keep the remaining lots on the pool average
+    if (this.method === 'average') {
+      for (const lot of state.lots) {
+        lot.cost = lot.amount * averageCost;
+      }
+    }
+
+    return consumed;
+  }
+}
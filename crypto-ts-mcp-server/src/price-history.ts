@@ -0,0 +1,145 @@
+import { httpClient, apiBaseUrl } from './http-client.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+import { SOL_MINT } from './position-ledger.js';
+
+const CACHE_FILE = 'price-history.json';
+const CHUNK_SECONDS = 30 * 24 * 60 * 60; // 30 day windows come back with hourly granularity
+const REFRESH_SECONDS = 60 * 60; // Windows that include "now" are refreshed after an hour
+const MAX_POINT_DISTANCE = 2 * 24 * 60 * 60; // Ignore prices more than two days from the timestamp
+
+// Stablecoins valued at $1 without a lookup
+const USD_STABLECOINS = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'  // USDT
+]);
+
+export function isUsdStablecoin(mint: string): boolean {
+  return USD_STABLECOINS.has(mint);
+}
+
+interface PriceChunk {
+  points: [number, number][]; // [unix seconds, USD price], ascending
+  fetchedAt: number;
+}
+
+/**
+ * Historical USD prices from CoinGecko `market_chart/range`, fetched in 30-day windows
+ * and persisted to a local cache file so each window is only downloaded once.
+ */
+export class PriceHistory {
+  private requestTimeout: number = 10000;
+  private chunks: Record<string, PriceChunk> = {};
+  private loaded: Promise<void> | null = null;
+  private pending: Map<string, Promise<PriceChunk | undefined>> = new Map();
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<Record<string, PriceChunk>>(CACHE_FILE, {}).then(chunks => {
+        this.chunks = chunks;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * USD price of a CoinGecko coin id at a unix timestamp (seconds)
+   */
+  async getCoinPriceAt(coinId: string, timestamp: number): Promise<number | undefined> {
+    return this.priceAt(`coin:${coinId}`, `/coins/${coinId}/market_chart/range`, timestamp);
+  }
+
+  /**
+   * USD price of a Solana token mint at a unix timestamp (seconds)
+   */
+  async getMintPriceAt(mint: string, timestamp: number): Promise<number | undefined> {
+    if (mint === SOL_MINT || mint === 'SOL') {
+      return this.getCoinPriceAt('solana', timestamp);
+    }
+    if (USD_STABLECOINS.has(mint)) {
+      return 1;
+    }
+    return this.priceAt(`mint:${mint}`, `/coins/solana/contract/${mint}/market_chart/range`, timestamp);
+  }
+
+  private async priceAt(key: string, path: string, timestamp: number): Promise<number | undefined> {
+    await this.load();
+
+    const chunkStart = Math.floor(timestamp / CHUNK_SECONDS) * CHUNK_SECONDS;
+    const chunk = await this.getChunk(`${key}:${chunkStart}`, path, chunkStart);
+    if (!chunk || chunk.points.length === 0) return undefined;
+
+    return nearestPrice(chunk.points, timestamp);
+  }
+
+  private async getChunk(cacheKey: string, path: string, chunkStart: number): Promise<PriceChunk | undefined> {
+    const now = Math.floor(Date.now() / 1000);
+    const chunkEnd = chunkStart + CHUNK_SECONDS;
+    const cached = this.chunks[cacheKey];
+
+    // Closed windows never change; the current window is refreshed periodically
+    if (cached && (cached.fetchedAt >= chunkEnd || now - cached.fetchedAt < REFRESH_SECONDS)) {
+      return cached;
+    }
+
+    // Share one request between concurrent lookups of the same window
+    let request = this.pending.get(cacheKey);
+    if (!request) {
+      // The whole window is requested even while it is open, so the request (and its recorded fixture) stays the same
+      request = this.fetchChunk(path, chunkStart, chunkEnd).then(async chunk => {
+        if (chunk) {
+          this.chunks[cacheKey] = chunk;
+          await writeJsonFile(CACHE_FILE, this.chunks).catch((error: any) => {
+            console.error('Could not persist price history cache:', error.message || error);
+          });
+        }
+        return chunk ?? cached;
+      }).finally(() => this.pending.delete(cacheKey));
+      this.pending.set(cacheKey, request);
+    }
+    return request;
+  }
+
+  private async fetchChunk(path: string, from: number, to: number): Promise<PriceChunk | undefined> {
+    try {
+      console.log(`API CALL: Fetching price history ${path} from ${new Date(from * 1000).toISOString()}`);
+      const response = await httpClient.get(`${apiBaseUrl('coingecko')}${path}`, {
+        params: { vs_currency: 'usd', from, to },
+        timeout: this.requestTimeout,
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'MCP Crypto Server'
+        }
+      });
+
+      const points: [number, number][] = (response.data?.prices || [])
+        .map(([millis, price]: [number, number]) => [Math.floor(millis / 1000), price]);
+      return { points, fetchedAt: Math.floor(Date.now() / 1000) };
+    } catch (error: any) {
+      // Unknown coins and contracts are cached as empty so they are not retried for every trade
+      if (error.response?.status === 404) {
+        return { points: [], fetchedAt: Math.floor(Date.now() / 1000) };
+      }
+      console.error(`❌ API ERROR: Could not fetch price history ${path}:`, error.message || error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Binary search for the price point closest to `timestamp`
+ */
+function nearestPrice(points: [number, number][], timestamp: number): number | undefined {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid][0] < timestamp) low = mid + 1;
+    else high = mid;
+  }
+
+  const candidates = [points[low], points[low - 1]].filter(Boolean);
+  const nearest = candidates.reduce((best, point) =>
+    Math.abs(point[0] - timestamp) < Math.abs(best[0] - timestamp) ? point : best
+  );
+  return Math.abs(nearest[0] - timestamp) <= MAX_POINT_DISTANCE ? nearest[1] : undefined;
+}
@@ -0,0 +1,69 @@
+import { httpClient, apiBaseUrl } from '../http-client.js';
+import type { CoinRef, PriceProvider, ProviderQuote } from './types.js';
+import { PriceProviderError, toProviderError } from './types.js';
+
+export interface CoinCapOptions {
+  apiKey?: string;
+  requestsPerMinute?: number; // Default 200
+}
+
+export class CoinCapProvider implements PriceProvider {
+  readonly name = 'coincap-api';
+  readonly maxBatchSize = 50;
+  readonly requestsPerMinute: number;
+  private headers: Record<string, string>;
+
+  constructor(options: CoinCapOptions = {}) {
+    this.requestsPerMinute = options.requestsPerMinute ?? 200;
+    this.headers = {
+      'Accept': 'application/json',
+      ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {})
+    };
+  }
+
+  async getPrices(coins: CoinRef[], vsCurrency: string): Promise<Map<string, ProviderQuote>> {
+    try {
+      const response = await httpClient.get(`${apiBaseUrl('coincap')}/assets`, {
+        params: { ids: coins.map(coin => coin.id).join(',') },
+        timeout: 5000,
+        headers: this.headers
+      });
+
+      const assets = response.data?.data;
+      if (!Array.isArray(assets)) {
+        throw new PriceProviderError(this.name, 'invalid_response', 'Invalid API response from CoinCap');
+      }
+
+      const quotes = new Map<string, ProviderQuote>();
+      const priced = assets.filter((asset: any) => asset?.id && asset.priceUsd);
+      if (priced.length === 0) return quotes;
+
+      const rate = vsCurrency === 'usd' ? 1 : await this.getRateUsd(vsCurrency);
+      for (const asset of priced) {
+        quotes.set(asset.id, { name: asset.name, symbol: asset.symbol, price: parseFloat(asset.priceUsd) / rate });
+      }
+      return quotes;
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  /**
+   * CoinCap only prices assets in USD. Its rates endpoint gives the USD value of one unit
+   * of a fiat or crypto currency, looked up by symbol.
+   */
+  private async getRateUsd(vsCurrency: string): Promise<number> {
+    const response = await httpClient.get(`${apiBaseUrl('coincap')}/rates`, {
+      timeout: 5000,
+      headers: this.headers
+    });
+
+    const rate = (response.data?.data || []).find((entry: any) =>
+      entry.symbol?.toLowerCase() === vsCurrency
+    );
+    if (!rate?.rateUsd) {
+      throw new PriceProviderError(this.name, 'not_found', `CoinCap has no rate for ${vsCurrency.toUpperCase()}`);
+    }
+    return parseFloat(rate.rateUsd);
+  }
+}
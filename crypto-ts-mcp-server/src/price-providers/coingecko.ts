@@ -0,0 +1,83 @@
+import { httpClient, apiBaseUrl } from '../http-client.js';
+import type { CoinRef, PriceProvider, ProviderQuote } from './types.js';
+import { CRYPTO_QUOTE_IDS, PriceProviderError, nameFromId, toProviderError } from './types.js';
+
+export interface CoinGeckoOptions {
+  apiKey?: string;
+  plan?: 'demo' | 'pro'; // Pro keys use a separate host and header
+  requestsPerMinute?: number; // Default 30, or 500 with a Pro key
+}
+
+/**
+ * Base URL and headers for CoinGecko requests. Pro keys use a separate host and header.
+ */
+export function coinGeckoClient(options: CoinGeckoOptions = {}): { baseUrl: string; headers: Record<string, string> } {
+  const pro = options.apiKey && options.plan === 'pro';
+  return {
+    baseUrl: apiBaseUrl(pro ? 'coingeckoPro' : 'coingecko'),
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'MCP Crypto Server',
+      ...(options.apiKey ? { [pro ? 'x-cg-pro-api-key' : 'x-cg-demo-api-key']: options.apiKey } : {})
+    }
+  };
+}
+
+export class CoinGeckoProvider implements PriceProvider {
+  readonly name = 'coingecko-api';
+  readonly maxBatchSize = 50;
+  readonly requestsPerMinute: number;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(options: CoinGeckoOptions = {}) {
+    ({ baseUrl: this.baseUrl, headers: this.headers } = coinGeckoClient(options));
+    this.requestsPerMinute = options.requestsPerMinute ?? (options.apiKey && options.plan === 'pro' ? 500 : 30);
+  }
+
+  async getPrices(coins: CoinRef[], vsCurrency: string): Promise<Map<string, ProviderQuote>> {
+    // simple/price quotes fiat, BTC and ETH directly; other crypto quotes go through a USD cross rate
+    const quoteId = vsCurrency === 'btc' || vsCurrency === 'eth' ? undefined : CRYPTO_QUOTE_IDS[vsCurrency];
+    const ids = [...new Set([...coins.map(coin => coin.id), ...(quoteId ? [quoteId] : [])])];
+    const currency = quoteId ? 'usd' : vsCurrency;
+
+    try {
+      const response = await httpClient.get(`${this.baseUrl}/simple/price`, {
+        params: {
+          ids: ids.join(','),
+          vs_currencies: currency,
+          include_market_cap: 'false',
+          include_24hr_vol: 'false',
+          include_24hr_change: 'false',
+          include_last_updated_at: 'false'
+        },
+        timeout: 5000,
+        headers: this.headers
+      });
+
+      let rate = 1;
+      if (quoteId) {
+        const quotePrice = response.data?.[quoteId]?.usd;
+        if (!quotePrice) {
+          throw new PriceProviderError(this.name, 'invalid_response', `CoinGecko returned no USD rate for ${vsCurrency.toUpperCase()}`);
+        }
+        rate = parseFloat(quotePrice);
+      }
+
+      // simple/price only returns prices, identity comes from the coin directory
+      const quotes = new Map<string, ProviderQuote>();
+      for (const coin of coins) {
+        const price = response.data?.[coin.id]?.[currency];
+        if (price === undefined) continue;
+        quotes.set(coin.id, {
+          name: coin.name ?? nameFromId(coin.id),
+          symbol: coin.symbol?.toUpperCase() ?? coin.id.toUpperCase().replace(/-/g, ''),
+          price: parseFloat(price) / rate
+        });
+      }
+      return quotes;
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { httpClient, apiBaseUrl } from '../http-client.js';
+import type { CoinRef, PriceProvider, ProviderQuote } from './types.js';
+import { PriceProviderError, nameFromId, toProviderError } from './types.js';
+
+export interface CryptoCompareOptions {
+  apiKey?: string;
+  requestsPerMinute?: number; // Default 60
+}
+
+export class CryptoCompareProvider implements PriceProvider {
+  readonly name = 'cryptocompare-api';
+  readonly maxBatchSize = 30; // fsyms is capped at 300 characters
+  readonly requestsPerMinute: number;
+  private headers: Record<string, string>;
+
+  constructor(options: CryptoCompareOptions = {}) {
+    this.requestsPerMinute = options.requestsPerMinute ?? 60;
+    this.headers = {
+      'Accept': 'application/json',
+      ...(options.apiKey ? { 'Authorization': `Apikey ${options.apiKey}` } : {})
+    };
+  }
+
+  async getPrices(coins: CoinRef[], vsCurrency: string): Promise<Map<string, ProviderQuote>> {
+    // CryptoCompare quotes fiat and crypto symbols directly
+    const tsym = vsCurrency.toUpperCase();
+
+    // CryptoCompare is keyed by symbol; guess one from the id only when the directory had none
+    const symbols = new Map(coins.map(coin => [coin.id, coin.symbol?.toUpperCase()
+      ?? (coin.id.includes('-') ? coin.id.split('-')[0].toUpperCase() : coin.id.toUpperCase())]));
+
+    try {
+      const response = await httpClient.get(`${apiBaseUrl('cryptocompare')}/data/pricemulti`, {
+        params: {
+          fsyms: [...new Set(symbols.values())].join(','),
+          tsyms: tsym
+        },
+        timeout: 5000,
+        headers: this.headers
+      });
+
+      // CryptoCompare answers rate limits and symbols it knows none of with HTTP 200 and an error payload
+      if (response.data?.Response === 'Error') {
+        if (/rate limit/i.test(response.data.Message || '')) {
+          throw new PriceProviderError(this.name, 'rate_limit', `${this.name} rate limit reached`);
+        }
+        return new Map();
+      }
+
+      const quotes = new Map<string, ProviderQuote>();
+      for (const coin of coins) {
+        const symbol = symbols.get(coin.id)!;
+        const price = response.data?.[symbol]?.[tsym];
+        if (price === undefined) continue;
+        quotes.set(coin.id, { name: coin.name ?? nameFromId(coin.id), symbol, price: parseFloat(price) });
+      }
+      return quotes;
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { CoinGeckoProvider, coinGeckoClient } from './coingecko.js';
+import type { CoinGeckoOptions } from './coingecko.js';
+import { CoinCapProvider } from './coincap.js';
+import { CryptoCompareProvider } from './cryptocompare.js';
+import type { PriceProvider } from './types.js';
+
+export * from './types.js';
+export { CoinGeckoProvider, CoinCapProvider, CryptoCompareProvider, coinGeckoClient };
+export type { CoinGeckoOptions };
+
+export const DEFAULT_PROVIDER_ORDER = ['coingecko', 'coincap', 'cryptocompare'];
+
+// Request budget override from <PROVIDER>_REQUESTS_PER_MINUTE
+function requestsPerMinute(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = Number(env[`${name}_REQUESTS_PER_MINUTE`]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * CoinGecko key, plan and request budget from COINGECKO_API_KEY / COINGECKO_API_PLAN /
+ * COINGECKO_REQUESTS_PER_MINUTE
+ */
+export function coinGeckoOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CoinGeckoOptions {
+  return {
+    apiKey: env.COINGECKO_API_KEY,
+    plan: env.COINGECKO_API_PLAN === 'pro' ? 'pro' : 'demo',
+    requestsPerMinute: requestsPerMinute(env, 'COINGECKO')
+  };
+}
+
+// Factories keyed by the names accepted in PRICE_PROVIDERS
+const PROVIDER_FACTORIES: Record<string, (env: NodeJS.ProcessEnv) => PriceProvider> = {
+  coingecko: env => new CoinGeckoProvider(coinGeckoOptionsFromEnv(env)),
+  coincap: env => new CoinCapProvider({ apiKey: env.COINCAP_API_KEY, requestsPerMinute: requestsPerMinute(env, 'COINCAP') }),
+  cryptocompare: env => new CryptoCompareProvider({ apiKey: env.CRYPTOCOMPARE_API_KEY, requestsPerMinute: requestsPerMinute(env, 'CRYPTOCOMPARE') })
+};
+
+/**
+ * Build the provider chain from a comma-separated PRICE_PROVIDERS list (in fallback order).
+ * Unknown names are skipped with a warning.
+ */
+export function createPriceProviders(env: NodeJS.ProcessEnv = process.env): PriceProvider[] {
+  const names = env.PRICE_PROVIDERS
+    ? env.PRICE_PROVIDERS.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PROVIDER_ORDER;
+
+  const providers: PriceProvider[] = [];
+  for (const name of names) {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.error(`Unknown price provider "${name}", expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+      continue;
+    }
+    providers.push(factory(env));
+  }
+
+  if (providers.length === 0) {
+    throw new Error('No valid price providers configured in PRICE_PROVIDERS');
+  }
+  return providers;
+}
@@ -0,0 +1,98 @@
+// Coin identity handed to providers: the CoinGecko id plus symbol and name when known
+export interface CoinRef {
+  id: string;
+  symbol?: string;
+  name?: string;
+}
+
+// Price quote as returned by a single upstream provider
+export interface ProviderQuote {
+  name: string;
+  symbol: string;
+  price: number;
+}
+
+export type ProviderErrorKind = 'rate_limit' | 'timeout' | 'not_found' | 'invalid_response' | 'network';
+
+/**
+ * Error raised by a price provider adapter. `kind` drives retries and circuit breaking:
+ * only rate limits, timeouts and network failures are worth retrying.
+ */
+export class PriceProviderError extends Error {
+  constructor(
+    public provider: string,
+    public kind: ProviderErrorKind,
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'PriceProviderError';
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'timeout' || this.kind === 'network';
+  }
+}
+
+/**
+ * A source of spot prices. Each adapter owns its own request format, response parsing
+ * and symbol mapping.
+ */
+export interface PriceProvider {
+  readonly name: string;
+  readonly maxBatchSize: number; // Most coins one request may ask for
+  readonly requestsPerMinute: number; // Request budget the price service enforces
+  /**
+   * Prices of `coins` in `vsCurrency` (a lowercase fiat or crypto code such as 'usd', 'eur' or 'btc'),
+   * keyed by coin id, in as few requests as the API allows. Coins the provider does not know are
+   * left out; a failure of the whole request throws. Adapters convert through USD when their API
+   * cannot quote the currency directly.
+   */
+  getPrices(coins: CoinRef[], vsCurrency: string): Promise<Map<string, ProviderQuote>>;
+}
+
+// CoinGecko ids of crypto assets usable as quote currencies, for cross-rate conversion
+export const CRYPTO_QUOTE_IDS: Record<string, string> = {
+  btc: 'bitcoin',
+  eth: 'ethereum',
+  sol: 'solana',
+  bnb: 'binancecoin',
+  ltc: 'litecoin',
+  xrp: 'ripple',
+  dot: 'polkadot'
+};
+
+export function isCryptoQuote(vsCurrency: string): boolean {
+  return vsCurrency in CRYPTO_QUOTE_IDS;
+}
+
+/**
+ * Translate an axios error into a PriceProviderError
+ */
+export function toProviderError(provider: string, error: any): PriceProviderError {
+  if (error instanceof PriceProviderError) return error;
+
+  const status = error.response?.status;
+  if (status === 429 || error.message?.includes('rate limit')) {
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    return new PriceProviderError(provider, 'rate_limit', `${provider} rate limit reached`,
+      Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+  }
+  if (status === 404) {
+    return new PriceProviderError(provider, 'not_found', `${provider} does not know this asset`);
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.message?.includes('timeout')) {
+    return new PriceProviderError(provider, 'timeout', `${provider} request timed out`);
+  }
+  if (status && status < 500) {
+    return new PriceProviderError(provider, 'invalid_response', `${provider} responded with HTTP ${status}`);
+  }
+  return new PriceProviderError(provider, 'network', `${provider} request failed: ${error.message || error}`);
+}
+
+/**
+ * Readable fallback name for an id like 'shiba-inu'
+ */
+export function nameFromId(id: string): string {
+  return id.charAt(0).toUpperCase() + id.slice(1).replace(/-/g, ' ');
+}
@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PriceService } from './price-service.js';
+import { PriceProviderError } from './price-providers/index.js';
+import type { CoinRef, PriceProvider, ProviderQuote } from './price-providers/index.js';
+
+/**
+ * Provider answering from a fixed price list, recording the ids of every call. `fail` makes a
+ * call throw instead; `gate` holds calls until it resolves.
+ */
+function stubProvider(name: string, prices: Record<string, number>, options: {
+  maxBatchSize?: number;
+  requestsPerMinute?: number;
+  fail?: (call: number) => Error | undefined;
+  gate?: Promise<void>;
+} = {}) {
+  const calls: string[][] = [];
+  const provider: PriceProvider = {
+    name,
+    maxBatchSize: options.maxBatchSize ?? 50,
+    requestsPerMinute: options.requestsPerMinute ?? 1000,
+    async getPrices(coins: CoinRef[]) {
+      calls.push(coins.map(coin => coin.id));
+      await options.gate;
+      const error = options.fail?.(calls.length);
+      if (error) throw error;
+      const quotes = new Map<string, ProviderQuote>();
+      for (const coin of coins) {
+        if (prices[coin.id] !== undefined) quotes.set(coin.id, { name: coin.id, symbol: coin.id.slice(0, 3).toUpperCase(), price: prices[coin.id] });
+      }
+      return quotes;
+    }
+  };
+  return { provider, calls };
+}
+
+const rateLimited = (name: string) => new PriceProviderError(name, 'rate_limit', `${name} rate limit reached`, 30000);
+const price = (result: unknown) => (result as { price: number }).price;
+
+test('coins missing from the cache are fetched in one multi-id call per provider batch', async () => {
+  const { provider, calls } = stubProvider('primary', { bitcoin: 60000, ethereum: 3000, solana: 150 }, { maxBatchSize: 2 });
+  const service = new PriceService([provider]);
+
+  const results = await service.getPrices(['bitcoin', 'ethereum', 'solana']);
+  assert.deepEqual(results.map(price), [60000, 3000, 150]);
+  assert.deepEqual(calls, [['bitcoin', 'ethereum'], ['solana']]);
+
+  await service.getPrices(['bitcoin', 'solana']);
+  assert.equal(calls.length, 2, 'cached prices are not fetched again');
+});
+
+test('only the coins a provider failed on fall through to the next one', async () => {
+  const primary = stubProvider('primary', { bitcoin: 60000 });
+  const secondary = stubProvider('secondary', { ethereum: 3000 });
+  const service = new PriceService([primary.provider, secondary.provider]);
+
+  const [bitcoin, ethereum] = await service.getPrices(['bitcoin', 'ethereum']);
+  assert.equal((bitcoin as { source: string }).source, 'primary');
+  assert.equal((ethereum as { source: string }).source, 'secondary');
+  assert.deepEqual(secondary.calls, [['ethereum']]);
+});
+
+test('concurrent lookups of the same coin share one request', async () => {
+  let open!: () => void;
+  const { provider, calls } = stubProvider('primary', { bitcoin: 60000, ethereum: 3000 }, { gate: new Promise<void>(resolve => { open = resolve; }) });
+  const service = new PriceService([provider]);
+
+  const lookups = [service.getPrice('bitcoin'), service.getPrice('bitcoin'), service.getPrices(['bitcoin', 'ethereum'])];
+  await new Promise(resolve => setImmediate(resolve));
+  open();
+  const [first, second, [third, ethereum]] = await Promise.all(lookups) as [unknown, unknown, unknown[]];
+
+  assert.deepEqual([price(first), price(second), price(third), price(ethereum)], [60000, 60000, 60000, 3000]);
+  assert.deepEqual(calls, [['bitcoin'], ['ethereum']]);
+});
+
+test('a rate limit serves the last known price marked stale', async () => {
+  const { provider } = stubProvider('primary', { bitcoin: 60000 }, { fail: call => call > 1 ? rateLimited('primary') : undefined });
+  const service = new PriceService([provider], { cacheTtlMs: 0, maxRetries: 0 });
+
+  const fresh = await service.getPrice('bitcoin');
+  assert.equal((fresh as { stale?: boolean }).stale, undefined);
+
+  const stale = await service.getPrice('bitcoin') as { price: number; stale?: boolean; cachedAt?: string };
+  assert.equal(stale.price, 60000);
+  assert.equal(stale.stale, true);
+  assert.ok(stale.cachedAt);
+});
+
+test('a rate limit without a cached price is an error that says when to retry', async () => {
+  const { provider } = stubProvider('primary', {}, { fail: () => rateLimited('primary') });
+  const service = new PriceService([provider], { maxRetries: 0 });
+
+  const result = await service.getPrice('bitcoin') as { error: { code: string; retryAfterMs?: number } };
+  assert.equal(result.error.code, 'rate_limited');
+  assert.equal(result.error.retryAfterMs, 30000);
+});
+
+test('a used-up request budget moves on to the next provider without calling the first', async () => {
+  const primary = stubProvider('primary', { bitcoin: 60000 }, { requestsPerMinute: 1 });
+  const secondary = stubProvider('secondary', { bitcoin: 60001 });
+  const service = new PriceService([primary.provider, secondary.provider], { cacheTtlMs: 0, maxThrottleWaitMs: 0 });
+
+  assert.equal(price(await service.getPrice('bitcoin')), 60000);
+  assert.equal(price(await service.getPrice('bitcoin')), 60001);
+  assert.equal(primary.calls.length, 1);
+});
+
+test('an open circuit skips the provider until its cooldown is over', async () => {
+  const timeout = new PriceProviderError('primary', 'timeout', 'primary request timed out');
+  const primary = stubProvider('primary', { bitcoin: 60000 }, { fail: () => timeout });
+  const secondary = stubProvider('secondary', { bitcoin: 60001 });
+  const service = new PriceService([primary.provider, secondary.provider], { cacheTtlMs: 0, maxRetries: 0, failureThreshold: 2, cooldownMs: 60000 });
+
+  for (let i = 0; i < 4; i++) {
+    assert.equal(price(await service.getPrice('bitcoin')), 60001);
+  }
+  assert.equal(primary.calls.length, 2, 'two timeouts open the circuit');
+  assert.equal(secondary.calls.length, 4);
+});
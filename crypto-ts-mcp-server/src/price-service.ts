@@ -0,0 +1,396 @@
+import type { CoinRef, PriceProvider } from './price-providers/index.js';
+import { formatCoinMatch } from './coin-directory.js';
+import type { CoinDirectory } from './coin-directory.js';
+import { PriceProviderError, isCryptoQuote, toProviderError } from './price-providers/index.js';
+import { AppError, toAppError } from './errors.js';
+
+// Type for cryptocurrency data
+export interface CryptoPrice {
+  id: string;
+  name: string;
+  symbol: string;
+  price: number;
+  currency: string;
+  source: string;
+  stale?: boolean; // Last known price, served because no provider could answer
+  cachedAt?: string; // ISO time a stale price was fetched
+}
+
+export type PriceResult = CryptoPrice | { error: AppError };
+
+export interface PriceServiceOptions {
+  cacheTtlMs?: number;
+  staleTtlMs?: number; // How long a cached price may still be served, marked stale, when no provider answers
+  maxThrottleWaitMs?: number; // Longest wait for a provider's request budget before moving to the next provider
+  maxRetries?: number; // Retries per provider for rate limits, timeouts and network errors
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  failureThreshold?: number; // Consecutive retryable failures before a provider's circuit opens
+  cooldownMs?: number; // How long an open circuit skips the provider (doubles on every re-open)
+}
+
+export const DEFAULT_VS_CURRENCY = 'usd';
+
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+
+/**
+ * Normalize a quote currency code ('EUR ' → 'eur')
+ */
+export function normalizeVsCurrency(vsCurrency?: string): string {
+  return (vsCurrency || DEFAULT_VS_CURRENCY).toLowerCase().trim();
+}
+
+/**
+ * Round a price for display: cents for fiat, eight significant digits for crypto quotes and
+ * sub-unit prices, so memecoins worth a fraction of a cent do not round to zero
+ */
+function roundPrice(price: number, vsCurrency: string): number {
+  return isCryptoQuote(vsCurrency) || Math.abs(price) < 1 ? parseFloat(price.toPrecision(8)) : parseFloat(price.toFixed(2));
+}
+
+/**
+ * Per-provider circuit breaker. After `failureThreshold` consecutive rate limits or timeouts
+ * the provider is skipped until the cooldown expires; then a single trial request decides
+ * whether it closes again or re-opens with a doubled cooldown.
+ */
+class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private openings = 0;
+
+  constructor(private failureThreshold: number, private cooldownMs: number) {}
+
+  isOpen(now = Date.now()): boolean {
+    return now < this.openUntil;
+  }
+
+  remainingMs(now = Date.now()): number {
+    return Math.max(0, this.openUntil - now);
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openings = 0;
+  }
+
+  recordFailure(retryAfterMs?: number) {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      const cooldown = Math.min(this.cooldownMs * Math.pow(2, this.openings), MAX_COOLDOWN_MS);
+      this.openUntil = Date.now() + Math.max(cooldown, retryAfterMs ?? 0);
+      this.openings++;
+      // Allow a single trial request once the cooldown is over
+      this.consecutiveFailures = this.failureThreshold - 1;
+    }
+  }
+}
+
+/**
+ * Per-provider request budget. Holds up to a minute's worth of requests and refills
+ * continuously, so bursts are allowed as long as the per-minute rate is kept.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private requestsPerMinute: number) {
+    this.tokens = requestsPerMinute;
+  }
+
+  /**
+   * Take a token: 0 when one was taken, otherwise the milliseconds until one is available
+   */
+  take(now = Date.now()): number {
+    this.tokens = Math.min(this.requestsPerMinute, this.tokens + (now - this.updatedAt) * this.requestsPerMinute / 60000);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * 60000 / this.requestsPerMinute);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Spot prices through an ordered chain of PriceProvider adapters, with a response cache,
+ * batched multi-coin requests, a request budget, exponential backoff on retryable errors
+ * and a circuit breaker per provider.
+ */
+export class PriceService {
+  private cache: Record<string, { data: CryptoPrice, timestamp: number }> = {};
+  private inflight: Map<string, Promise<PriceResult>> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private buckets: Map<string, TokenBucket> = new Map();
+  private options: Required<PriceServiceOptions>;
+
+  constructor(private providers: PriceProvider[], options: PriceServiceOptions = {}, private directory?: CoinDirectory) {
+    this.options = {
+      cacheTtlMs: options.cacheTtlMs ?? 60000, // 1 minute cache
+      staleTtlMs: options.staleTtlMs ?? 60 * 60 * 1000,
+      maxThrottleWaitMs: options.maxThrottleWaitMs ?? 2000,
+      maxRetries: options.maxRetries ?? 1,
+      baseBackoffMs: options.baseBackoffMs ?? 500,
+      maxBackoffMs: options.maxBackoffMs ?? 5000,
+      failureThreshold: options.failureThreshold ?? 3,
+      cooldownMs: options.cooldownMs ?? 60000
+    };
+
+    for (const provider of providers) {
+      this.breakers.set(provider.name, new CircuitBreaker(this.options.failureThreshold, this.options.cooldownMs));
+      this.buckets.set(provider.name, new TokenBucket(provider.requestsPerMinute));
+    }
+  }
+
+  /**
+   * Get cryptocurrency price in `vsCurrency` (default USD), falling through the provider
+   * chain until one succeeds
+   */
+  async getPrice(cryptoId: string, vsCurrency?: string): Promise<PriceResult> {
+    const [result] = await this.getPrices([cryptoId], vsCurrency);
+    return result;
+  }
+
+  /**
+   * Prices of several coins in `vsCurrency` (default USD), in input order. Coins missing from
+   * the cache are fetched with one multi-coin request per provider; only the coins a provider
+   * failed on fall through to the next one. A coin that is already being fetched shares the
+   * request in flight.
+   */
+  async getPrices(cryptoIds: string[], vsCurrency?: string): Promise<PriceResult[]> {
+    const vs = normalizeVsCurrency(vsCurrency);
+    // Resolve symbols and names ('BTC', 'Shiba Inu') to CoinGecko ids
+    const coins = await Promise.all(cryptoIds.map(cryptoId => this.resolveCoin(cryptoId)));
+
+    const toFetch: CoinRef[] = [];
+    const settle: Map<string, (result: PriceResult) => void> = new Map();
+    const results = coins.map((coin): Promise<PriceResult> => {
+      if ('error' in coin) {
+        return Promise.resolve(coin);
+      }
+
+      // Check cache first to avoid unnecessary API calls
+      const cacheKey = `${coin.id}:${vs}`;
+      const cached = this.cache[cacheKey];
+      if (cached && (Date.now() - cached.timestamp) < this.options.cacheTtlMs) {
+        console.log(`CACHE HIT: Using cached data for ${cacheKey}, cached at ${new Date(cached.timestamp).toISOString()}`);
+        return Promise.resolve(cached.data);
+      }
+
+      let request = this.inflight.get(cacheKey);
+      if (!request) {
+        request = new Promise<PriceResult>(resolve => settle.set(coin.id, resolve));
+        this.inflight.set(cacheKey, request);
+        toFetch.push(coin);
+      }
+      return request;
+    });
+
+    if (toFetch.length > 0) {
+      const fetched = await this.fetchPrices(toFetch, vs).catch(error => {
+        const failure = toAppError(error);
+        return new Map<string, PriceResult>(toFetch.map(coin => [coin.id, { error: failure }]));
+      });
+      for (const coin of toFetch) {
+        this.inflight.delete(`${coin.id}:${vs}`);
+        settle.get(coin.id)!(fetched.get(coin.id)!);
+      }
+    }
+
+    return Promise.all(results);
+  }
+
+  private async fetchPrices(coins: CoinRef[], vs: string): Promise<Map<string, PriceResult>> {
+    const results: Map<string, PriceResult> = new Map();
+    const failures: Map<string, AppError[]> = new Map(coins.map(coin => [coin.id, []]));
+    const openCircuits: number[] = [];
+    let remaining = coins;
+
+    for (const provider of this.providers) {
+      if (remaining.length === 0) break;
+
+      const breaker = this.breakers.get(provider.name)!;
+      const missed: CoinRef[] = [];
+      for (let start = 0; start < remaining.length; start += provider.maxBatchSize) {
+        const batch = remaining.slice(start, start + provider.maxBatchSize);
+        if (breaker.isOpen()) {
+          console.error(`⏸️ CIRCUIT OPEN: Skipping ${provider.name} for another ${Math.ceil(breaker.remainingMs() / 1000)}s`);
+          openCircuits.push(breaker.remainingMs());
+          missed.push(...remaining.slice(start));
+          break;
+        }
+
+        const ids = batch.map(coin => coin.id).join(',');
+        try {
+          console.log(`API CALL: Fetching live ${vs.toUpperCase()} prices for ${ids} from ${provider.name}`);
+          const quotes = await this.fetchWithBackoff(provider, breaker, batch, vs);
+          console.log(`✅ API SUCCESS: Got ${quotes.size} of ${batch.length} prices from ${provider.name}`);
+
+          for (const coin of batch) {
+            const quote = quotes.get(coin.id);
+            if (!quote) {
+              failures.get(coin.id)!.push(new AppError('unknown_coin', `${provider.name} has no price for ${coin.id}`, { details: { provider: provider.name } }));
+              missed.push(coin);
+              continue;
+            }
+
+            const result: CryptoPrice = {
+              id: coin.id,
+              name: quote.name,
+              symbol: quote.symbol,
+              price: roundPrice(quote.price, vs),
+              currency: vs.toUpperCase(),
+              source: provider.name
+            };
+            this.cache[`${coin.id}:${vs}`] = { data: result, timestamp: Date.now() };
+            results.set(coin.id, result);
+          }
+        } catch (error: any) {
+          if (error instanceof PriceProviderError && error.kind === 'rate_limit') {
+            console.error(`🚨 RATE LIMIT: ${provider.name} rate limit reached for ${ids}`);
+          } else {
+            console.error(`❌ API ERROR: Error fetching prices from ${provider.name} for ${ids}:`, error.message || error);
+          }
+          const failure = toAppError(error);
+          for (const coin of batch) {
+            failures.get(coin.id)!.push(failure);
+          }
+          missed.push(...batch);
+        }
+      }
+
+      if (missed.length > 0) {
+        console.log(`🔄 TRYING NEXT PROVIDER for ${missed.map(coin => coin.id).join(',')}`);
+      }
+      remaining = missed;
+    }
+
+    for (const coin of remaining) {
+      const error = this.exhaustedError(`Could not get ${vs.toUpperCase()} price for ${coin.id} from any of the APIs`, failures.get(coin.id)!, openCircuits);
+      results.set(coin.id, this.stalePrice(coin.id, vs, error) ?? { error });
+    }
+    return results;
+  }
+
+  /**
+   * The last known price, marked stale, when the failure is temporary and the price is not too old
+   */
+  private stalePrice(id: string, vs: string, error: AppError): CryptoPrice | undefined {
+    const cached = this.cache[`${id}:${vs}`];
+    if (!error.retryable || !cached || Date.now() - cached.timestamp >= this.options.staleTtlMs) {
+      return undefined;
+    }
+    console.error(`🕰️ STALE: Serving ${id}:${vs} from ${new Date(cached.timestamp).toISOString()} (${error.code})`);
+    return { ...cached.data, stale: true, cachedAt: new Date(cached.timestamp).toISOString() };
+  }
+
+  /**
+   * Summarize why every provider failed: a rate limit or open circuits tell the caller when to
+   * come back, a coin every provider lacks is not worth retrying
+   */
+  private exhaustedError(message: string, failures: AppError[], openCircuits: number[]): AppError {
+    const providers = failures.map(failure => ({ code: failure.code, message: failure.message }));
+    const rateLimited = failures.filter(failure => failure.code === 'rate_limited');
+    if (rateLimited.length > 0) {
+      const waits = rateLimited.map(failure => failure.retryAfterMs ?? 60000).concat(openCircuits);
+      return new AppError('rate_limited', `${message}: rate limited`, { retryAfterMs: Math.min(...waits), details: { providers } });
+    }
+    if (failures.length === 0) {
+      return new AppError('upstream_unavailable', `${message}: every provider is cooling down`, {
+        retryAfterMs: openCircuits.length > 0 ? Math.min(...openCircuits) : undefined
+      });
+    }
+    if (openCircuits.length === 0 && failures.every(failure => failure.code === 'unknown_coin')) {
+      return new AppError('unknown_coin', `${message}: no provider lists this coin`, { details: { providers } });
+    }
+    const code = failures.every(failure => failure.code === 'upstream_timeout') ? 'upstream_timeout' : 'upstream_error';
+    return new AppError(code, message, {
+      retryable: openCircuits.length > 0 || failures.some(failure => failure.retryable),
+      retryAfterMs: openCircuits.length > 0 ? Math.min(...openCircuits) : undefined,
+      details: { providers }
+    });
+  }
+
+  /**
+   * Map user input to the coin identity handed to providers. Without a directory the input is
+   * used as the id as-is.
+   */
+  async resolveCoin(cryptoId: string): Promise<CoinRef | { error: AppError }> {
+    if (!this.directory) {
+      return { id: cryptoId.toLowerCase().trim() };
+    }
+
+    const resolution = await this.directory.resolve(cryptoId);
+    if (resolution.status === 'resolved') {
+      const { id, symbol, name } = resolution.coin;
+      return { id, symbol: symbol || undefined, name: name || undefined };
+    }
+
+    if (resolution.status === 'ambiguous') {
+      return {
+        error: new AppError('ambiguous_coin', `"${cryptoId}" matches several coins, use one of these ids:\n${resolution.candidates.map(candidate => `  - ${formatCoinMatch(candidate)}`).join('\n')}`, {
+          hint: 'Pass the CoinGecko id of the coin you mean',
+          details: { candidates: resolution.candidates.map(candidate => candidate.id) }
+        })
+      };
+    }
+
+    // Without a close match, point to the largest coins instead
+    const suggestions = resolution.suggestions.length > 0 ? resolution.suggestions : await this.directory.topCoins(5);
+    const message = suggestions.length > 0
+      ? `Unknown cryptocurrency "${cryptoId}". Did you mean:\n${suggestions.map(suggestion => `  - ${formatCoinMatch(suggestion)}`).join('\n')}`
+      : `Unknown cryptocurrency "${cryptoId}"`;
+    return {
+      error: new AppError('unknown_coin', message, {
+        hint: 'Use searchCrypto to look up the CoinGecko id',
+        details: { suggestions: suggestions.map(suggestion => suggestion.id) }
+      })
+    };
+  }
+
+  /**
+   * Wait for a token from the provider's request budget. A wait longer than maxThrottleWaitMs
+   * counts as a rate limit, so the coins move on to the next provider instead.
+   */
+  private async throttle(provider: PriceProvider) {
+    const bucket = this.buckets.get(provider.name)!;
+    for (let wait = bucket.take(); wait > 0; wait = bucket.take()) {
+      if (wait > this.options.maxThrottleWaitMs) {
+        throw new PriceProviderError(provider.name, 'rate_limit', `${provider.name} request budget of ${provider.requestsPerMinute}/min is used up`, wait);
+      }
+      console.error(`⏳ THROTTLE: Waiting ${wait}ms for ${provider.name} request budget`);
+      await sleep(wait);
+    }
+  }
+
+  private async fetchWithBackoff(provider: PriceProvider, breaker: CircuitBreaker, coins: CoinRef[], vs: string) {
+    const ids = coins.map(coin => coin.id).join(',');
+    for (let attempt = 0; ; attempt++) {
+      await this.throttle(provider);
+      try {
+        const quotes = await provider.getPrices(coins, vs);
+        breaker.recordSuccess();
+        return quotes;
+      } catch (rawError) {
+        const error = toProviderError(provider.name, rawError);
+        if (!error.retryable) {
+          throw error;
+        }
+
+        breaker.recordFailure(error.retryAfterMs);
+        if (attempt >= this.options.maxRetries || breaker.isOpen()) {
+          throw error;
+        }
+
+        // Exponential backoff with jitter, honouring Retry-After when it is shorter than the cap
+        const backoff = Math.min(
+          error.retryAfterMs ?? this.options.baseBackoffMs * Math.pow(2, attempt) * (1 + Math.random() * 0.25),
+          this.options.maxBackoffMs
+        );
+        console.error(`⏳ BACKOFF: Retrying ${provider.name} for ${ids} in ${Math.round(backoff)}ms`);
+        await sleep(backoff);
+      }
+    }
+  }
+}
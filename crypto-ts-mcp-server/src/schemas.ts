@@ -0,0 +1,478 @@
+import { z } from "zod";
+
+// Output schemas for the structured content returned by tools and JSON resources.
+// They mirror the interfaces in price-service.ts, coin-directory.ts, market-data.ts, position-ledger.ts,
+// wallet-analyzer.ts, swap-parser.ts, activity-classifier.ts, trading-metrics.ts, wallet-comparison.ts, period-report.ts,
+// transaction-store.ts, alerts.ts, portfolios.ts, wallet-holdings.ts and errors.ts.
+
+export const errorInfoSchema = z.object({
+  code: z.enum([
+    "invalid_input", "invalid_address", "unknown_coin", "ambiguous_coin", "not_found", "missing_api_key",
+    "invalid_api_key", "rate_limited", "upstream_timeout", "upstream_unavailable", "upstream_error", "cancelled",
+    "internal"
+  ]),
+  message: z.string(),
+  retryable: z.boolean(),
+  retryAfterMs: z.number().optional(),
+  hint: z.string().optional(),
+  details: z.record(z.unknown()).optional()
+});
+
+export const cryptoPriceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  symbol: z.string(),
+  price: z.number(),
+  currency: z.string(),
+  source: z.string(),
+  stale: z.boolean().optional().describe("Last known price, served because no provider could answer"),
+  cachedAt: z.string().optional()
+});
+
+export const priceErrorSchema = errorInfoSchema.pick({ code: true, message: true, retryable: true, retryAfterMs: true }).extend({
+  cryptoId: z.string(),
+  vsCurrency: z.string()
+});
+
+export const coinMatchSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  marketCapRank: z.number().optional(),
+  score: z.number(),
+  matchedOn: z.enum(["id", "symbol", "name", "prefix", "fuzzy"])
+});
+
+export const marketDataSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  currency: z.string(),
+  price: z.number(),
+  marketCap: z.number().optional(),
+  marketCapRank: z.number().optional(),
+  volume24h: z.number().optional(),
+  high24h: z.number().optional(),
+  low24h: z.number().optional(),
+  change24h: z.number().optional().describe("Percent"),
+  change7d: z.number().optional().describe("Percent"),
+  ath: z.number().optional(),
+  athDate: z.string().optional(),
+  athDistance: z.number().optional().describe("Percent from the all-time high, negative below it"),
+  circulatingSupply: z.number().optional(),
+  lastUpdated: z.string().optional(),
+  source: z.string()
+});
+
+export const candleSchema = z.object({
+  timestamp: z.number().describe("Unix timestamp (seconds) the candle opens at"),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  samples: z.number()
+});
+
+export const priceCandlesSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  currency: z.string(),
+  interval: z.enum(["5m", "15m", "1h", "4h", "1d", "1w"]),
+  from: z.string(),
+  to: z.string(),
+  candles: z.array(candleSchema),
+  change: z.number().optional().describe("Percent from the first open to the last close")
+});
+
+export const costBreakdownSchema = z.object({
+  networkFee: z.number().describe("Base fee in SOL"),
+  priorityFee: z.number(),
+  jitoTip: z.number(),
+  rentPaid: z.number().describe("Deposits for opened token accounts")
+});
+
+export const tradeCostsSchema = costBreakdownSchema.extend({
+  total: z.number().describe("SOL"),
+  rentRefunded: z.number().describe("Deposits returned by closed token accounts, not netted against the total")
+});
+
+export const tradeInfoSchema = z.object({
+  timestamp: z.number().describe("Unix timestamp (seconds)"),
+  type: z.string(),
+  tokenIn: z.string().optional(),
+  tokenOut: z.string().optional(),
+  amountIn: z.number().optional(),
+  amountOut: z.number().optional(),
+  profitLoss: z.number().optional().describe("Realized P/L in SOL"),
+  profitLossUsd: z.number().optional(),
+  valueInUsd: z.number().optional(),
+  valueOutUsd: z.number().optional(),
+  fee: z.number().optional().describe("Network fee in SOL"),
+  feeUsd: z.number().optional(),
+  costs: tradeCostsSchema.optional(),
+  costsUsd: z.number().optional(),
+  rentRefundedUsd: z.number().optional(),
+  signature: z.string(),
+  source: z.string().optional(),
+  route: z.array(z.object({
+    tokenIn: z.string().optional(),
+    amountIn: z.number().optional(),
+    tokenOut: z.string().optional(),
+    amountOut: z.number().optional(),
+    program: z.string().optional(),
+    programId: z.string().optional()
+  })).optional().describe("Hops of a routed swap in execution order"),
+  otherLegs: z.array(z.object({ mint: z.string(), amount: z.number() })).optional(),
+  parsedFrom: z.enum(["swap-event", "balance-deltas"]).optional()
+});
+
+export const activityCategorySchema = z.enum([
+  "swap", "transfer_in", "transfer_out", "airdrop", "reward", "stake", "unstake",
+  "liquidity_add", "liquidity_remove", "nft_buy", "nft_sell", "rent", "other"
+]);
+
+export const activityCountsSchema = z.record(activityCategorySchema, z.number());
+
+// Flattened: fields beyond the common ones depend on the category
+export const walletActivitySchema = z.object({
+  category: activityCategorySchema,
+  signature: z.string(),
+  timestamp: z.number().describe("Unix timestamp (seconds)"),
+  type: z.string().describe("Helius transaction type"),
+  source: z.string().optional(),
+  fee: z.number().optional().describe("Network fee in SOL"),
+  movements: z.array(z.object({ mint: z.string(), amount: z.number() })).describe("Net change per mint, negative when sent"),
+  description: z.string().optional(),
+  mint: z.string().optional(),
+  amount: z.number().optional(),
+  counterparty: z.string().optional(),
+  tokenIn: z.string().optional(),
+  amountIn: z.number().optional(),
+  tokenOut: z.string().optional(),
+  amountOut: z.number().optional(),
+  pool: z.string().optional(),
+  nftMint: z.string().optional(),
+  price: z.number().optional().describe("NFT price in SOL"),
+  marketplace: z.string().optional()
+});
+
+export const walletActivityReportSchema = z.object({
+  walletAddress: z.string(),
+  counts: activityCountsSchema.describe("Every transaction in the window, before filtering"),
+  activities: z.array(walletActivitySchema),
+  historyTruncated: z.boolean()
+});
+
+export const tokenPositionSchema = z.object({
+  mint: z.string(),
+  amountHeld: z.number(),
+  costBasis: z.number(),
+  averageCost: z.number(),
+  lastPrice: z.number().optional(),
+  realizedProfitLoss: z.number(),
+  unrealizedProfitLoss: z.number(),
+  buys: z.number(),
+  sells: z.number()
+});
+
+export const portfolioValuePointSchema = z.object({
+  date: z.string(),
+  valueUsd: z.number(),
+  costBasisUsd: z.number()
+});
+
+const metricsGroupSchema = z.object({
+  trades: z.number(),
+  closedTrades: z.number(),
+  profitableTrades: z.number(),
+  realizedProfitLoss: z.number().describe("SOL"),
+  realizedProfitLossUsd: z.number(),
+  volumeSol: z.number(),
+  volumeUsd: z.number(),
+  costs: z.number().describe("SOL"),
+  costsUsd: z.number()
+});
+
+export const tradingMetricsSchema = z.object({
+  averageHoldingTime: z.number().optional().describe("Seconds"),
+  longestWinStreak: z.number(),
+  longestLossStreak: z.number(),
+  currentStreak: z.number().describe("Positive for wins, negative for losses"),
+  averageWin: z.number().describe("SOL"),
+  averageLoss: z.number().describe("SOL, negative"),
+  grossProfit: z.number(),
+  grossLoss: z.number(),
+  profitFactor: z.number().optional(),
+  maxDrawdown: z.number().describe("SOL, of cumulative realized P/L"),
+  maxDrawdownStart: z.number().optional(),
+  maxDrawdownEnd: z.number().optional(),
+  tokens: z.array(metricsGroupSchema.extend({
+    mint: z.string(),
+    symbol: z.string(),
+    averageHoldingTime: z.number().optional()
+  })).describe("Best realized P/L first"),
+  sources: z.array(metricsGroupSchema.extend({
+    source: z.string().describe("Venue, e.g. 'Jupiter' or 'Pump.fun'"),
+    labels: z.array(z.string()).describe("Helius source labels grouped into the venue")
+  })).describe("Per venue, best realized P/L first"),
+  timeZone: z.string(),
+  tradesByHour: z.array(z.number()).describe("24 entries, local hour of day"),
+  tradesByWeekday: z.array(z.number()).describe("7 entries, Monday first")
+});
+
+export const walletStatsSchema = z.object({
+  totalTrades: z.number(),
+  closedTrades: z.number(),
+  profitableTrades: z.number(),
+  totalProfitLoss: z.number(),
+  realizedProfitLoss: z.number(),
+  unrealizedProfitLoss: z.number(),
+  accountingMethod: z.enum(["fifo", "lifo", "average"]),
+  averageTradeSize: z.number(),
+  largestTrade: z.number(),
+  largestSOLTrade: z.number(),
+  successRate: z.number(),
+  positions: z.array(tokenPositionSchema).describe("Positions in the SOL ledger"),
+  realizedProfitLossUsd: z.number(),
+  unrealizedProfitLossUsd: z.number(),
+  totalProfitLossUsd: z.number(),
+  positionsUsd: z.array(tokenPositionSchema).describe("Positions in the USD ledger"),
+  totalFees: z.number(),
+  totalFeesUsd: z.number(),
+  totalCosts: z.number().describe("Fees, Jito tips and rent for opened token accounts, in SOL"),
+  totalCostsUsd: z.number(),
+  averageCost: z.number().describe("SOL per trade"),
+  averageCostUsd: z.number(),
+  costBreakdown: costBreakdownSchema,
+  rentRefunded: z.number().describe("SOL returned by closed token accounts"),
+  rentRefundedUsd: z.number(),
+  totalProfitLossAfterCosts: z.number(),
+  totalProfitLossAfterCostsUsd: z.number(),
+  unpricedTrades: z.number(),
+  unpricedTransfers: z.number(),
+  activityCounts: activityCountsSchema,
+  metrics: tradingMetricsSchema,
+  portfolioValueHistory: z.array(portfolioValuePointSchema),
+  transactionsInRange: z.number(),
+  historyTruncated: z.boolean(),
+  tradeHistory: z.array(tradeInfoSchema)
+});
+
+export const reportSummarySchema = walletStatsSchema.omit({
+  positions: true,
+  positionsUsd: true,
+  portfolioValueHistory: true,
+  tradeHistory: true
+});
+
+export const reportTokenSchema = z.object({
+  mint: z.string(),
+  symbol: z.string(),
+  amountHeld: z.number(),
+  realizedProfitLoss: z.number(),
+  unrealizedProfitLoss: z.number(),
+  realizedProfitLossUsd: z.number().optional(),
+  unrealizedProfitLossUsd: z.number().optional()
+});
+
+export const reportTradeSchema = tradeInfoSchema.extend({
+  tokenInSymbol: z.string(),
+  tokenOutSymbol: z.string()
+});
+
+export const endOfDayReportSchema = z.object({
+  walletAddress: z.string(),
+  generatedAt: z.string(),
+  summary: reportSummarySchema,
+  tokens: z.array(reportTokenSchema),
+  portfolioValue: z.array(portfolioValuePointSchema),
+  recentTrades: z.array(reportTradeSchema)
+});
+
+export const walletComparisonSchema = z.object({
+  windowSeconds: z.number(),
+  wallets: z.array(z.object({
+    walletAddress: z.string(),
+    totalTrades: z.number(),
+    closedTrades: z.number(),
+    successRate: z.number(),
+    realizedProfitLoss: z.number(),
+    realizedProfitLossUsd: z.number(),
+    totalProfitLoss: z.number(),
+    totalProfitLossUsd: z.number(),
+    tokensTraded: z.number(),
+    historyTruncated: z.boolean()
+  })),
+  sharedTokens: z.array(z.object({
+    mint: z.string(),
+    symbol: z.string(),
+    entries: z.array(z.object({
+      walletAddress: z.string(),
+      enteredAt: z.number().describe("Unix timestamp (seconds) of the first buy"),
+      lagSeconds: z.number().describe("Behind the first wallet to enter"),
+      trades: z.number()
+    }))
+  })),
+  mirrorScores: z.array(z.object({
+    leader: z.string(),
+    follower: z.string(),
+    leaderActions: z.number(),
+    mirroredActions: z.number(),
+    score: z.number().describe("Share of the leader's buys and sells the follower repeated within the window, 0 to 1"),
+    averageLagSeconds: z.number().optional()
+  }))
+});
+
+export const periodTradeSchema = z.object({
+  signature: z.string(),
+  timestamp: z.number().describe("Unix timestamp (seconds)"),
+  localTime: z.string().describe("YYYY-MM-DD HH:mm in the report's time zone"),
+  tokenInSymbol: z.string(),
+  tokenOutSymbol: z.string(),
+  amountIn: z.number().optional(),
+  amountOut: z.number().optional(),
+  profitLoss: z.number().optional().describe("Realized P/L in SOL"),
+  profitLossUsd: z.number().optional()
+});
+
+export const periodMetricsSchema = z.object({
+  trades: z.number(),
+  closedTrades: z.number(),
+  profitableTrades: z.number(),
+  volumeSol: z.number(),
+  volumeUsd: z.number(),
+  realizedProfitLoss: z.number().describe("SOL"),
+  realizedProfitLossUsd: z.number(),
+  fees: z.number().describe("SOL"),
+  bestTrade: periodTradeSchema.optional(),
+  worstTrade: periodTradeSchema.optional()
+});
+
+export const periodRangeSchema = z.object({
+  label: z.string().describe("'2025-04-01', '2025-W14' or '2025-04'"),
+  start: z.string().describe("ISO timestamp, inclusive"),
+  end: z.string().describe("ISO timestamp, exclusive")
+});
+
+export const periodReportSchema = z.object({
+  walletAddress: z.string(),
+  period: z.enum(["day", "week", "month"]),
+  timeZone: z.string(),
+  generatedAt: z.string(),
+  range: periodRangeSchema,
+  current: periodMetricsSchema,
+  previousRange: periodRangeSchema,
+  previous: periodMetricsSchema,
+  change: z.object({
+    trades: z.number(),
+    volumeSol: z.number(),
+    volumeUsd: z.number(),
+    realizedProfitLoss: z.number(),
+    realizedProfitLossUsd: z.number()
+  }).describe("Current minus previous period"),
+  buckets: z.array(periodMetricsSchema.extend(periodRangeSchema.shape)).describe("Hours of a day, days of a week or month"),
+  historyTruncated: z.boolean()
+});
+
+export const syncStatusSchema = z.object({
+  walletAddress: z.string(),
+  transactionCount: z.number(),
+  tradeCount: z.number(),
+  newestSignature: z.string().optional(),
+  newestTimestamp: z.number().optional(),
+  oldestSignature: z.string().optional(),
+  oldestTimestamp: z.number().optional(),
+  historyComplete: z.boolean(),
+  gap: z.object({ before: z.string(), until: z.string() }).optional(),
+  lastSyncedAt: z.string().optional()
+});
+
+export const syncResultSchema = syncStatusSchema.extend({
+  transactionsFetched: z.number(),
+  newTransactions: z.number(),
+  budgetExhausted: z.boolean()
+});
+
+export const alertConditionSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("price_above"), cryptoId: z.string(), vsCurrency: z.string(), threshold: z.number() }),
+  z.object({ kind: z.literal("price_below"), cryptoId: z.string(), vsCurrency: z.string(), threshold: z.number() }),
+  z.object({ kind: z.literal("price_change"), cryptoId: z.string(), vsCurrency: z.string(), percent: z.number() }),
+  z.object({ kind: z.literal("wallet_swap"), walletAddress: z.string(), minSol: z.number().optional() })
+]);
+
+export const alertEventSchema = z.object({
+  firedAt: z.string(),
+  message: z.string(),
+  price: z.number().optional(),
+  signature: z.string().optional()
+});
+
+export const alertSchema = z.object({
+  id: z.string(),
+  uri: z.string(),
+  condition: alertConditionSchema,
+  repeat: z.boolean(),
+  status: z.enum(["active", "fired"]),
+  createdAt: z.string(),
+  lastCheckedAt: z.string().optional(),
+  lastPrice: z.number().optional(),
+  referencePrice: z.number().optional(),
+  armed: z.boolean().optional(),
+  since: z.number().optional(),
+  seenSignatures: z.array(z.string()).optional(),
+  events: z.array(alertEventSchema)
+});
+
+export const portfolioWalletSchema = z.object({
+  address: z.string(),
+  label: z.string().optional()
+});
+
+export const portfolioSchema = z.object({
+  name: z.string(),
+  uri: z.string(),
+  wallets: z.array(portfolioWalletSchema),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const internalTransferSchema = z.object({
+  signature: z.string(),
+  timestamp: z.number(),
+  from: z.string(),
+  to: z.string(),
+  mint: z.string(),
+  amount: z.number()
+});
+
+export const portfolioAnalysisSchema = z.object({
+  name: z.string(),
+  combined: walletStatsSchema,
+  wallets: z.array(portfolioWalletSchema.extend({ stats: walletStatsSchema })),
+  internalTransfers: z.array(internalTransferSchema),
+  excludedTrades: z.number()
+});
+
+export const holdingSchema = z.object({
+  mint: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number(),
+  amount: z.number(),
+  program: z.enum(["native", "spl-token", "token-2022"]),
+  price: z.number().optional(),
+  value: z.number().optional(),
+  allocation: z.number().optional(),
+  priceSource: z.string().optional(),
+  spam: z.boolean()
+});
+
+export const walletHoldingsSchema = z.object({
+  walletAddress: z.string(),
+  vsCurrency: z.string(),
+  fetchedAt: z.string(),
+  totalValue: z.number(),
+  holdings: z.array(holdingSchema),
+  hidden: z.object({ dust: z.number(), spam: z.number(), zeroValue: z.number() })
+});
@@ -0,0 +1,1336 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { WalletAnalyzer, formatEndOfDayReport, formatActivityCounts } from "./wallet-analyzer.js";
+import { TransactionStore, DEFAULT_MAX_TRANSACTIONS } from "./transaction-store.js";
+import { TokenRegistry } from "./token-registry.js";
+import { PriceHistory } from "./price-history.js";
+import { PriceService, DEFAULT_VS_CURRENCY, normalizeVsCurrency } from "./price-service.js";
+import { createPriceProviders, coinGeckoOptionsFromEnv } from "./price-providers/index.js";
+import { CoinDirectory, formatCoinMatch } from "./coin-directory.js";
+import { MarketDataService, CANDLE_INTERVALS } from "./market-data.js";
+import { AlertManager, alertUri, describeAlertCondition } from "./alerts.js";
+import { TradeExporter, EXPORT_FORMATS } from "./trade-export.js";
+import { PortfolioManager } from "./portfolios.js";
+import { HoldingsService } from "./wallet-holdings.js";
+import { computeTradingMetrics, formatTradingMetrics } from "./trading-metrics.js";
+import { formatTradingCosts } from "./trade-costs.js";
+import { PeriodReporter, formatPeriodReport, REPORT_PERIODS, REPORT_FORMATS } from "./period-report.js";
+import { WalletComparer, formatWalletComparison } from "./wallet-comparison.js";
+import { HeliusWebhookReceiver } from "./helius-webhook.js";
+import { AppError, toAppError } from "./errors.js";
+import { isSolanaAddress } from "./solana-address.js";
+import { pathToFileURL } from "node:url";
+import { cryptoPriceSchema, priceErrorSchema, coinMatchSchema, marketDataSchema, priceCandlesSchema, walletStatsSchema, endOfDayReportSchema, syncStatusSchema, syncResultSchema, alertSchema, portfolioSchema, portfolioAnalysisSchema, walletHoldingsSchema, activityCategorySchema, walletActivityReportSchema, periodReportSchema, tradingMetricsSchema, walletComparisonSchema } from "./schemas.js";
+import dotenv from 'dotenv';
+
+// Import the wallet analysis types
+import type { AnalyzeOptions, WalletStats, WalletActivityReport, TradeInfo } from "./wallet-analyzer.js";
+import type { SyncStatus } from "./transaction-store.js";
+import type { Alert, AlertCondition } from "./alerts.js";
+import type { Portfolio, PortfolioAnalysis } from "./portfolios.js";
+import type { WalletHoldings } from "./wallet-holdings.js";
+import type { AccountingMethod } from "./position-ledger.js";
+import type { CryptoPrice, PriceResult } from "./price-service.js";
+import type { MarketData, PriceCandles } from "./market-data.js";
+import type { ErrorCode } from "./errors.js";
+
+// A quote that could not be fetched, reported next to the prices that could
+interface PriceError {
+  cryptoId: string;
+  vsCurrency: string;
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Initialize wallet analyzer with Helius API key from environment variable
+const heliusApiKey = process.env.HELIUS_API_KEY ?? "";
+const heliusConfigured = heliusApiKey.trim() !== "" && heliusApiKey !== "YOUR_HELIUS_API_KEY";
+let heliusWarningLogged = false;
+const tokenRegistry = new TokenRegistry(heliusApiKey);
+const priceHistory = new PriceHistory();
+const transactionStore = new TransactionStore(heliusApiKey);
+
+// Optional numeric setting from the environment
+export function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+}
+
+// Resolves symbols and names typed by users to CoinGecko ids
+const coinDirectory = new CoinDirectory(coinGeckoOptionsFromEnv());
+
+// Price lookups go through the provider chain configured in PRICE_PROVIDERS
+const priceService = new PriceService(createPriceProviders(), {
+  maxRetries: envNumber('PRICE_MAX_RETRIES'),
+  baseBackoffMs: envNumber('PRICE_BACKOFF_MS'),
+  failureThreshold: envNumber('PRICE_CIRCUIT_THRESHOLD'),
+  cooldownMs: envNumber('PRICE_CIRCUIT_COOLDOWN_MS'),
+  staleTtlMs: envNumber('PRICE_STALE_TTL_MS'),
+  maxThrottleWaitMs: envNumber('PRICE_THROTTLE_WAIT_MS')
+}, coinDirectory);
+
+// Market caps, volumes, changes and OHLC history from CoinGecko
+const marketDataService = new MarketDataService(priceService, coinGeckoOptionsFromEnv());
+
+// Current balances, also used to mark open positions in the wallet analysis
+const holdingsService = new HoldingsService(heliusApiKey, tokenRegistry, priceService);
+const walletAnalyzer = new WalletAnalyzer(heliusApiKey, tokenRegistry, priceHistory, transactionStore, holdingsService);
+
+// Writes trade history and realized gains to CSV/JSON files
+const tradeExporter = new TradeExporter(walletAnalyzer, tokenRegistry);
+
+// Daily, weekly and monthly trading reports in the caller's time zone
+const periodReporter = new PeriodReporter(walletAnalyzer, tokenRegistry);
+
+// Side-by-side wallet comparison and copy-trade detection
+const walletComparer = new WalletComparer(walletAnalyzer, tokenRegistry);
+
+// Price and wallet alerts, polled in the background and shared by every session
+const alertManager = new AlertManager(priceService, walletAnalyzer, tokenRegistry, envNumber('ALERT_POLL_INTERVAL_MS'));
+alertManager.load().catch(error => console.error('Could not load alerts:', error));
+
+// Named sets of wallets analyzed together
+const portfolioManager = new PortfolioManager(walletAnalyzer);
+
+// Trades pushed by Helius webhooks; the endpoint only listens when HELIUS_WEBHOOK_PORT is set
+export const webhookReceiver = new HeliusWebhookReceiver(walletAnalyzer, transactionStore, {
+  secret: process.env.HELIUS_WEBHOOK_SECRET ?? "",
+  wallets: (process.env.HELIUS_WEBHOOK_WALLETS ?? "").split(",").map(address => address.trim()).filter(Boolean)
+});
+
+// Trades listed by the recent trades resource
+const RECENT_TRADES_LIMIT = 20;
+
+/**
+ * Get cryptocurrency price from the configured providers with fallback mechanisms
+ */
+function getCryptoPrice(cryptoId: string, vsCurrency?: string): Promise<PriceResult> {
+  return priceService.getPrice(cryptoId, vsCurrency);
+}
+
+/**
+ * Refuse wallet lookups before they reach Helius with a missing or placeholder key
+ */
+function requireHeliusApiKey(): void {
+  if (!heliusConfigured) {
+    throw new AppError("missing_api_key", "Wallet tools need a Helius API key", {
+      hint: "Set HELIUS_API_KEY in the environment or .env file (get one at https://helius.xyz)"
+    });
+  }
+}
+
+function formatError(error: AppError): string {
+  return error.message + (error.hint ? ` (${error.hint})` : "");
+}
+
+/**
+ * Failed tool result: the message as text and the classified error as structured content
+ */
+function toolError(error: unknown, action: string) {
+  const appError = toAppError(error);
+  console.error(`Error ${action}:`, appError.code, appError.message);
+  return {
+    content: [{ type: "text" as const, text: `Error ${action}: ${formatError(appError)}` }],
+    structuredContent: { error: appError.toJSON() },
+    isError: true
+  };
+}
+
+/**
+ * Failed resource read: the message as text and the classified error as JSON
+ */
+function resourceError(uri: URL, error: unknown, action: string) {
+  const appError = toAppError(error);
+  return resourceContents(uri, `Error ${action}: ${formatError(appError)}`, { error: appError.toJSON() });
+}
+
+function priceError(cryptoId: string, vsCurrency: string, error: AppError): PriceError {
+  const { code, message, retryable, retryAfterMs } = error.toJSON();
+  return { cryptoId, vsCurrency, code, message, retryable, ...(retryAfterMs !== undefined ? { retryAfterMs } : {}) };
+}
+
+const INVALID_ADDRESS_MESSAGE = "Invalid Solana address, expected a base58-encoded 32-byte public key";
+
+// Solana wallet address parameter, checked before any lookup
+const solanaAddressParam = z.string().trim().refine(isSolanaAddress, { message: INVALID_ADDRESS_MESSAGE });
+
+/**
+ * Error for a wallet address taken from a resource URI, which skips the tool input schemas
+ */
+function invalidAddress(address: string): AppError {
+  return new AppError("invalid_address", `${INVALID_ADDRESS_MESSAGE}: "${address}"`);
+}
+
+// Quote currency parameter shared by the price tools
+const vsCurrencyParam = z.union([z.string(), z.array(z.string())]).optional()
+  .describe("Currency or list of currencies to quote in, fiat or crypto (e.g. 'usd', 'eur', 'gbp', 'btc', 'sol' or ['eur', 'btc']). Defaults to 'usd'");
+
+/**
+ * Turn the vsCurrency parameter (a code, comma-separated codes or a list) into normalized codes
+ */
+function parseVsCurrencies(vsCurrency?: string | string[]): string[] {
+  const codes = (Array.isArray(vsCurrency) ? vsCurrency : (vsCurrency ?? '').split(','))
+    .map(code => normalizeVsCurrency(code))
+    .filter(code => code.length > 0);
+  return codes.length > 0 ? [...new Set(codes)] : [DEFAULT_VS_CURRENCY];
+}
+
+function formatPrice(result: CryptoPrice): string {
+  const amount = result.currency === 'USD' ? `$${result.price}` : `${result.price}`;
+  const stale = result.stale ? `, STALE as of ${result.cachedAt}` : '';
+  return `${result.name} (${result.symbol}): ${amount} ${result.currency} [Source: ${result.source}${stale}]`;
+}
+
+/**
+ * Full-precision number for display: thousands separators, up to eight significant digits
+ */
+function formatNumber(value: number, maximumSignificantDigits = 8): string {
+  return value.toLocaleString('en-US', { maximumSignificantDigits });
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+function formatMarketData(data: MarketData): string {
+  const amount = (value: number) => `${formatNumber(value)} ${data.currency}`;
+  const lines = [`${data.name} (${data.symbol}): ${amount(data.price)} [Source: ${data.source}]`];
+  if (data.change24h !== undefined || data.change7d !== undefined) {
+    lines.push(`- Change: ${data.change24h !== undefined ? formatPercent(data.change24h) : 'n/a'} 24h, ${data.change7d !== undefined ? formatPercent(data.change7d) : 'n/a'} 7d`);
+  }
+  if (data.high24h !== undefined && data.low24h !== undefined) lines.push(`- 24h Range: ${amount(data.low24h)} to ${amount(data.high24h)}`);
+  if (data.marketCap !== undefined) lines.push(`- Market Cap: ${formatNumber(Math.round(data.marketCap), 21)} ${data.currency}${data.marketCapRank ? ` (rank #${data.marketCapRank})` : ''}`);
+  if (data.volume24h !== undefined) lines.push(`- 24h Volume: ${formatNumber(Math.round(data.volume24h), 21)} ${data.currency}`);
+  if (data.circulatingSupply !== undefined) lines.push(`- Circulating Supply: ${formatNumber(Math.round(data.circulatingSupply), 21)}`);
+  if (data.ath !== undefined) {
+    lines.push(`- All-Time High: ${amount(data.ath)}${data.athDate ? ` on ${data.athDate.slice(0, 10)}` : ''}${data.athDistance !== undefined ? ` (${formatPercent(data.athDistance)} from it)` : ''}`);
+  }
+  if (data.lastUpdated) lines.push(`- Last Updated: ${data.lastUpdated}`);
+  return lines.join('\n');
+}
+
+function formatPriceCandles(history: PriceCandles): string {
+  const header = `${history.name} (${history.symbol}) ${history.interval} candles in ${history.currency}, ${history.from} to ${history.to}` +
+    (history.change !== undefined ? ` (${formatPercent(history.change)})` : '');
+  if (history.candles.length === 0) {
+    return `${header}\nNo price data for this range`;
+  }
+  const rows = history.candles.map(candle =>
+    `${new Date(candle.timestamp * 1000).toISOString().slice(0, 16).replace('T', ' ')}  O ${formatNumber(candle.open)}  H ${formatNumber(candle.high)}  L ${formatNumber(candle.low)}  C ${formatNumber(candle.close)}`
+  );
+  return `${header}\n${rows.join('\n')}`;
+}
+
+/**
+ * Text and JSON contents of a resource read
+ */
+function resourceContents(uri: URL, text: string, data: unknown) {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: "text/plain", text },
+      { uri: uri.href, mimeType: "application/json", text: JSON.stringify(data) }
+    ]
+  };
+}
+
+/**
+ * Read handler shared by the price resources, quoting in the currency from the URI (default USD)
+ */
+async function readPriceResource(uri: URL, cryptoId: string, vsCurrency?: string) {
+  const result = await getCryptoPrice(cryptoId, vsCurrency);
+
+  if ("error" in result) {
+    return resourceError(uri, result.error, `getting the price of ${cryptoId}`);
+  }
+  return resourceContents(uri, formatPrice(result), result);
+}
+
+// Optional history range parameters shared by the wallet tools
+const historyRangeParams = {
+  from: z.string().optional().describe("Only include transactions on or after this date/time (ISO 8601, e.g. '2025-04-01' or '2025-04-01T12:00:00Z')"),
+  to: z.string().optional().describe("Only include transactions on or before this date/time (ISO 8601; a plain date includes the whole day)"),
+  maxTransactions: z.number().int().positive().optional().describe(`Maximum number of transactions to fetch from Helius in this call (default ${DEFAULT_MAX_TRANSACTIONS})`),
+  accountingMethod: z.enum(["fifo", "lifo", "average"]).optional().describe("Lot matching used for realized P/L: 'fifo' (default), 'lifo' or 'average' cost")
+};
+
+/**
+ * Parse an ISO 8601 date/time parameter into a unix timestamp (seconds)
+ */
+function parseDateParam(value: string | undefined, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+
+  const millis = Date.parse(value);
+  if (isNaN(millis)) {
+    throw new AppError("invalid_input", `Invalid date "${value}". Use ISO 8601, e.g. '2025-04-01' or '2025-04-01T12:00:00Z'`);
+  }
+
+  // A plain date as upper bound should cover that whole (UTC) day
+  const isPlainDate = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  return Math.floor(millis / 1000) + (endOfDay && isPlainDate ? 86399 : 0);
+}
+
+/**
+ * Build analyzer options from tool arguments, reporting fetch progress back to the client
+ * when it supplied a progress token
+ */
+function buildAnalyzeOptions(
+  args: { from?: string; to?: string; maxTransactions?: number; accountingMethod?: AccountingMethod },
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): AnalyzeOptions {
+  const progressToken = extra._meta?.progressToken;
+
+  return {
+    from: parseDateParam(args.from, false),
+    to: parseDateParam(args.to, true),
+    maxTransactions: args.maxTransactions,
+    accountingMethod: args.accountingMethod,
+    signal: extra.signal,
+    onProgress: progressToken === undefined ? undefined : async (progress) => {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: progress.transactionsFetched,
+          total: progress.maxTransactions,
+          message: progress.oldestTimestamp
+            ? `Fetched ${progress.transactionsFetched} transactions, back to ${new Date(progress.oldestTimestamp * 1000).toISOString()}`
+            : `Fetched ${progress.transactionsFetched} transactions`
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Format the wallet analysis shared by the analysis tool and resource
+ */
+function formatWalletAnalysis(walletAddress: string, stats: WalletStats): string {
+  return `
+Trading Analysis for ${walletAddress}:
+- Total Swaps: ${stats.totalTrades}
+- Closed Trades: ${stats.closedTrades}
+- Profitable Trades: ${stats.profitableTrades}
+- Success Rate: ${stats.successRate.toFixed(2)}%
+- Realized P/L: ${stats.realizedProfitLoss.toFixed(4)} SOL (${stats.accountingMethod.toUpperCase()})
+- Unrealized P/L: ${stats.unrealizedProfitLoss.toFixed(4)} SOL
+- Total P/L: ${stats.totalProfitLoss.toFixed(4)} SOL
+- USD P/L: $${stats.totalProfitLossUsd.toFixed(2)} (realized $${stats.realizedProfitLossUsd.toFixed(2)}, unrealized $${stats.unrealizedProfitLossUsd.toFixed(2)})${stats.unpricedTransfers > 0 ? `
+- Unpriced Transfers: ${stats.unpricedTransfers} received without a price, their sales are left out of P/L` : ''}
+${formatTradingCosts(stats, '- ')}
+- Average Trade Size: ${stats.averageTradeSize.toFixed(4)} SOL
+- Largest SOL Trade: ${stats.largestSOLTrade.toFixed(4)} SOL
+- Transactions in Range: ${stats.transactionsInRange}${stats.historyTruncated ? ' (history truncated, raise maxTransactions for more)' : ''}
+- Activity: ${formatActivityCounts(stats.activityCounts)}
+`;
+}
+
+/**
+ * Format classified wallet activity, one line per transaction
+ */
+function formatWalletActivity(report: WalletActivityReport): string {
+  const amount = (value: number, mint: string) =>
+    `${value.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${tokenRegistry.symbol(mint)}`;
+  const lines = report.activities.map(activity => {
+    const movements = activity.movements.map(movement => `${movement.amount > 0 ? '+' : ''}${amount(movement.amount, movement.mint)}`).join(', ');
+    const counterparty = 'counterparty' in activity && activity.counterparty
+      ? ` ${activity.category === 'transfer_out' ? 'to' : 'from'} ${activity.counterparty}` : '';
+    return `- ${new Date(activity.timestamp * 1000).toISOString()} ${activity.category} (${activity.type}${activity.source ? `, ${activity.source}` : ''})${counterparty}` +
+      (movements ? `: ${movements}` : '');
+  });
+
+  return `
+Activity of ${report.walletAddress}:
+Counts: ${formatActivityCounts(report.counts)}${report.historyTruncated ? ' (history truncated, raise maxTransactions for more)' : ''}
+${lines.join('\n') || '- No matching activity'}
+`;
+}
+
+/**
+ * Format a wallet's current holdings, one line per position
+ */
+function formatHoldings(result: WalletHoldings): string {
+  const vs = result.vsCurrency.toUpperCase();
+  const lines = result.holdings.map(holding =>
+    `- ${holding.symbol}: ${holding.amount.toLocaleString(undefined, { maximumFractionDigits: Math.min(holding.decimals, 9) })}` +
+    (holding.value !== undefined ? ` = ${holding.value.toFixed(2)} ${vs} (${(holding.allocation ?? 0).toFixed(2)}%)` : ' (no price)') +
+    (holding.spam ? ' [spam]' : '')
+  );
+  const hidden = [
+    result.hidden.dust > 0 ? `${result.hidden.dust} dust` : '',
+    result.hidden.spam > 0 ? `${result.hidden.spam} spam` : '',
+    result.hidden.zeroValue > 0 ? `${result.hidden.zeroValue} zero-value` : ''
+  ].filter(Boolean).join(', ');
+
+  return `
+Holdings of ${result.walletAddress}:
+Total Value: ${result.totalValue.toFixed(2)} ${vs}
+${lines.join('\n') || '- No holdings'}${hidden ? `\nHidden: ${hidden}` : ''}
+`;
+}
+
+/**
+ * Format what the transaction store holds for a wallet
+ */
+function formatSyncStatus(status: SyncStatus): string {
+  const date = (timestamp?: number) => timestamp !== undefined ? new Date(timestamp * 1000).toISOString() : 'n/a';
+  return `
+Stored History for ${status.walletAddress}:
+- Transactions: ${status.transactionCount} (${status.tradeCount} trades)
+- Newest: ${date(status.newestTimestamp)}
+- Oldest: ${date(status.oldestTimestamp)}${status.historyComplete ? ' (first transaction of the wallet)' : ''}${status.gap ? `
+- Gap: transactions between ${status.gap.until.substring(0, 10)}... and ${status.gap.before.substring(0, 10)}... are not synced yet` : ''}
+- Last Synced: ${status.lastSyncedAt ?? 'never'}
+`;
+}
+
+/**
+ * Alert as returned by the alert tools and resources
+ */
+function alertView(alert: Alert) {
+  return { ...alert, uri: alertUri(alert.id) };
+}
+
+function formatAlert(alert: Alert): string {
+  const lastEvent = alert.events[0];
+  return `- ${alert.id}: ${describeAlertCondition(alert.condition)} [${alert.status}${alert.repeat ? ', repeating' : ''}]` +
+    (alert.lastPrice !== undefined ? ` — last price ${alert.lastPrice}` : '') +
+    (lastEvent ? `\n    Last fired ${lastEvent.firedAt}: ${lastEvent.message}` : '');
+}
+
+const portfolioUri = (name: string) => `portfolio://${name}/analysis`;
+
+const recentTradesUri = (walletAddress: string) => `wallet://${walletAddress}/recent-trades`;
+
+/**
+ * Format stored trades newest first, one line per trade
+ */
+function formatRecentTrades(walletAddress: string, trades: TradeInfo[]): string {
+  const amount = (value: number | undefined, mint: string | undefined) =>
+    `${value?.toLocaleString(undefined, { maximumFractionDigits: 6 }) ?? '?'} ${tokenRegistry.symbol(mint)}`;
+  const lines = trades.map(trade =>
+    `- ${new Date(trade.timestamp * 1000).toISOString()} ${amount(trade.amountIn, trade.tokenIn)} → ${amount(trade.amountOut, trade.tokenOut)}` +
+    ` on ${trade.source || 'Unknown'}${trade.valueOutUsd !== undefined ? ` ($${trade.valueOutUsd.toFixed(2)})` : ''} (${trade.signature.substring(0, 10)}...)`
+  );
+  return `Recent trades of ${walletAddress}:\n${lines.join('\n') || '- No stored trades yet'}`;
+}
+
+/**
+ * Portfolio as returned by the portfolio tools
+ */
+function portfolioView(portfolio: Portfolio) {
+  return { ...portfolio, uri: portfolioUri(portfolio.name) };
+}
+
+function formatPortfolio(portfolio: Portfolio): string {
+  return `- ${portfolio.name} (${portfolioUri(portfolio.name)}): ` +
+    portfolio.wallets.map(wallet => wallet.label ? `${wallet.label} ${wallet.address}` : wallet.address).join(', ');
+}
+
+/**
+ * Format a portfolio analysis: the combined book, then one line per wallet
+ */
+function formatPortfolioAnalysis(analysis: PortfolioAnalysis): string {
+  const wallets = analysis.wallets.map(wallet =>
+    `- ${wallet.label ?? wallet.address}: ${wallet.stats.totalTrades} swaps, P/L ${wallet.stats.totalProfitLoss.toFixed(4)} SOL ($${wallet.stats.totalProfitLossUsd.toFixed(2)}), success rate ${wallet.stats.successRate.toFixed(2)}%`
+  ).join('\n');
+  return formatWalletAnalysis(`portfolio ${analysis.name} (${analysis.wallets.length} wallets)`, analysis.combined) +
+    `- Internal Transfers: ${analysis.internalTransfers.length} (${analysis.excludedTrades} trades excluded)\n` +
+    `\nPer Wallet:\n${wallets}\n`;
+}
+
+/**
+ * Create an MCP server with every tool and resource registered. The services behind them
+ * (price cache, circuit breakers, coin directory, token registry) are shared by all servers
+ * created in this process.
+ */
+export function createServer(): McpServer {
+  // A missing or placeholder key shows at startup rather than on the first wallet request
+  if (!heliusConfigured && !heliusWarningLogged) {
+    heliusWarningLogged = true;
+    console.error("❌ CONFIG ERROR: HELIUS_API_KEY is missing or still YOUR_HELIUS_API_KEY, wallet tools and resources will fail with missing_api_key");
+  }
+
+  const server = new McpServer({
+    name: "CryptoPriceServer",
+    version: "1.0.0"
+  }, {
+    capabilities: { resources: { subscribe: true } }
+  });
+
+  // Resource URIs this client subscribed to; fired alerts notify their subscribers
+  const subscriptions = new Set<string>();
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notifySubscribers = (uri: string) => {
+    if (subscriptions.has(uri)) {
+      server.server.sendResourceUpdated({ uri }).catch(error => {
+        console.error(`Could not notify subscribers of ${uri}:`, error.message || error);
+      });
+    }
+  };
+  const stopAlerts = alertManager.onFire(alert => notifySubscribers(alertUri(alert.id)));
+  const stopTrades = webhookReceiver.onTrades(walletAddress => notifySubscribers(recentTradesUri(walletAddress)));
+  server.server.onclose = () => {
+    stopAlerts();
+    stopTrades();
+  };
+
+  // Add a tool to get the price of a single cryptocurrency
+  server.registerTool(
+    "getCryptoPrice",
+    {
+      description: "Get the current price of a cryptocurrency in one or more fiat or crypto currencies",
+      inputSchema: {
+        cryptoId: z.string().describe("The cryptocurrency as a CoinGecko id, symbol or name (e.g., 'bitcoin', 'BTC', 'Shiba Inu')"),
+        vsCurrency: vsCurrencyParam
+      },
+      outputSchema: {
+        prices: z.array(cryptoPriceSchema),
+        errors: z.array(priceErrorSchema)
+      }
+    },
+    async ({ cryptoId, vsCurrency }) => {
+      const lines: string[] = [];
+      const prices: CryptoPrice[] = [];
+      const errors: PriceError[] = [];
+
+      for (const vs of parseVsCurrencies(vsCurrency)) {
+        const result = await getCryptoPrice(cryptoId, vs);
+        if ("error" in result) {
+          errors.push(priceError(cryptoId, vs, result.error));
+          lines.push(formatError(result.error));
+        } else {
+          prices.push(result);
+          lines.push(formatPrice(result));
+        }
+      }
+      
+      return {
+        content: [{ type: "text", text: lines.join('\n') }],
+        structuredContent: { prices, errors },
+        ...(prices.length === 0 ? { isError: true } : {})
+      };
+    }
+  );
+
+  // Add a tool to get the prices of multiple cryptocurrencies
+  server.registerTool(
+    "getMultipleCryptoPrices",
+    {
+      description: "Get the current prices of several cryptocurrencies at once",
+      inputSchema: {
+        cryptoIds: z.string().describe("Comma-separated list of cryptocurrency ids, symbols or names (e.g., 'bitcoin,ETH,solana')"),
+        vsCurrency: vsCurrencyParam
+      },
+      outputSchema: {
+        prices: z.array(cryptoPriceSchema),
+        errors: z.array(priceErrorSchema)
+      }
+    },
+    async ({ cryptoIds, vsCurrency }) => {
+      const ids = cryptoIds.split(',').map(id => id.trim()).filter(id => id.length > 0);
+      const currencies = parseVsCurrencies(vsCurrency);
+      const results: string[] = [];
+      const prices: CryptoPrice[] = [];
+      const errors: PriceError[] = [];
+
+      // One batched lookup per currency instead of a request per coin
+      const quotes = await Promise.all(currencies.map(vs => priceService.getPrices(ids, vs)));
+      
+      for (const [index, cryptoId] of ids.entries()) {
+        for (const [column, vs] of currencies.entries()) {
+          const result = quotes[column][index];
+          
+          if ("error" in result) {
+            errors.push(priceError(cryptoId, vs, result.error));
+            results.push(`${cryptoId}: ${formatError(result.error)}`);
+          } else {
+            prices.push(result);
+            results.push(formatPrice(result));
+          }
+        }
+      }
+      
+      return {
+        content: [{ type: "text", text: results.join('\n') }],
+        structuredContent: { prices, errors }
+      };
+    }
+  );
+
+  // Add a tool to find coins by symbol, name or id
+  server.registerTool(
+    "searchCrypto",
+    {
+      description: "Find coins by symbol, name or id, including partial and misspelled names",
+      inputSchema: {
+        query: z.string().describe("Symbol, name or id to search for (e.g. 'BTC', 'sol', 'Shiba Inu')"),
+        limit: z.number().int().min(1).max(50).optional().describe("Maximum number of matches to return (default 10)")
+      },
+      outputSchema: {
+        query: z.string(),
+        matches: z.array(coinMatchSchema)
+      }
+    },
+    async ({ query, limit }) => {
+      const matches = await coinDirectory.search(query, limit ?? 10);
+
+      if (matches.length === 0 && !coinDirectory.available) {
+        return toolError(new AppError("upstream_unavailable", "Coin list is unavailable right now", { retryAfterMs: 60000 }), "searching coins");
+      }
+      if (matches.length === 0) {
+        return {
+          content: [{ type: "text", text: `No coins match "${query}"` }],
+          structuredContent: { query, matches }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `Coins matching "${query}":\n${matches.map(match => `- ${formatCoinMatch(match)} [${match.matchedOn} match]`).join('\n')}`
+        }],
+        structuredContent: { query, matches }
+      };
+    }
+  );
+
+  // Add a tool for market cap, volume and price changes
+  server.registerTool(
+    "getMarketData",
+    {
+      description: "Get market data for a cryptocurrency at full precision: price, market cap, 24h volume, 24h/7d change, distance from the all-time high and last update time",
+      inputSchema: {
+        cryptoId: z.string().describe("The cryptocurrency as a CoinGecko id, symbol or name (e.g., 'bitcoin', 'BONK', 'Shiba Inu')"),
+        vsCurrency: z.string().optional().describe("Currency to quote in, fiat or crypto (default 'usd')")
+      },
+      outputSchema: marketDataSchema.shape
+    },
+    async ({ cryptoId, vsCurrency }) => {
+      try {
+        const data = await marketDataService.getMarketData(cryptoId, vsCurrency);
+        return {
+          content: [{ type: "text", text: formatMarketData(data) }],
+          structuredContent: { ...data }
+        };
+      } catch (error) {
+        return toolError(error, "fetching market data");
+      }
+    }
+  );
+
+  // Add a tool for OHLC price history
+  server.registerTool(
+    "getPriceHistory",
+    {
+      description: "Get OHLC candles of a cryptocurrency's price for a date range and interval",
+      inputSchema: {
+        cryptoId: z.string().describe("The cryptocurrency as a CoinGecko id, symbol or name"),
+        vsCurrency: z.string().optional().describe("Currency to quote in, fiat or crypto (default 'usd')"),
+        from: z.string().optional().describe("Start of the range (ISO 8601, default 30 days before `to`)"),
+        to: z.string().optional().describe("End of the range (ISO 8601; a plain date includes the whole day; default now)"),
+        interval: z.enum(CANDLE_INTERVALS).optional()
+          .describe("Candle size. 5m/15m need a range of up to 1 day and 1h/4h up to 90 days (default the finest that fits 1000 candles)")
+      },
+      outputSchema: priceCandlesSchema.shape
+    },
+    async ({ cryptoId, vsCurrency, from, to, interval }) => {
+      try {
+        const history = await marketDataService.getCandles(cryptoId, {
+          vsCurrency,
+          from: parseDateParam(from, false),
+          to: parseDateParam(to, true),
+          interval
+        });
+        return {
+          content: [{ type: "text", text: formatPriceCandles(history) }],
+          structuredContent: { ...history }
+        };
+      } catch (error) {
+        return toolError(error, "fetching price history");
+      }
+    }
+  );
+
+  // Add a resource to get the price of a cryptocurrency
+  server.registerResource(
+    "cryptoPrice",
+    new ResourceTemplate("crypto://{cryptoId}/price", { 
+      // The largest coins by market cap, once the coin directory has loaded
+      list: async () => ({
+        resources: (await coinDirectory.topCoins(10)).map(coin => ({
+          name: `${coin.name} Price`,
+          uri: `crypto://${coin.id}/price`
+        }))
+      })
+    }),
+    { description: "Current USD price of a cryptocurrency, as text and JSON" },
+    async (uri, params) => readPriceResource(uri, params.cryptoId as string)
+  );
+
+  // Add a resource to get the price of a cryptocurrency in another currency
+  server.registerResource(
+    "cryptoPriceInCurrency",
+    new ResourceTemplate("crypto://{cryptoId}/price/{vs}", { list: undefined }),
+    { description: "Current price of a cryptocurrency in a fiat or crypto currency, as text and JSON" },
+    async (uri, params) => readPriceResource(uri, params.cryptoId as string, params.vs as string)
+  );
+
+  // Add a resource for a cryptocurrency's market data
+  server.registerResource(
+    "cryptoMarketData",
+    new ResourceTemplate("crypto://{cryptoId}/market", { list: undefined }),
+    { description: "USD market cap, volume, 24h/7d change and all-time high of a cryptocurrency, as text and JSON" },
+    async (uri, params) => {
+      try {
+        const data = await marketDataService.getMarketData(params.cryptoId as string);
+        return resourceContents(uri, formatMarketData(data), data);
+      } catch (error) {
+        return resourceError(uri, error, "fetching market data");
+      }
+    }
+  );
+
+  // Add a resource for a cryptocurrency's recent price history
+  server.registerResource(
+    "cryptoPriceHistory",
+    new ResourceTemplate("crypto://{cryptoId}/history", { list: undefined }),
+    { description: "Daily USD OHLC candles of a cryptocurrency over the last 30 days, as text and JSON" },
+    async (uri, params) => {
+      try {
+        const history = await marketDataService.getCandles(params.cryptoId as string, { interval: '1d' });
+        return resourceContents(uri, formatPriceCandles(history), history);
+      } catch (error) {
+        return resourceError(uri, error, "fetching price history");
+      }
+    }
+  );
+
+  // Add a tool to analyze a wallet's trading history
+  server.registerTool(
+    "analyzeTrades",
+    {
+      description: "Analyze the swap history of a Solana wallet: P/L in SOL and USD, positions, fees and trade history",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address to analyze"),
+        ...historyRangeParams
+      },
+      outputSchema: {
+        walletAddress: z.string(),
+        stats: walletStatsSchema
+      }
+    },
+    async ({ walletAddress, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const stats = await walletAnalyzer.analyzeWallet(walletAddress, buildAnalyzeOptions(range, extra));
+        
+        return {
+          content: [{ 
+            type: "text", 
+            text: formatWalletAnalysis(walletAddress, stats)
+          }],
+          structuredContent: { walletAddress, stats }
+        };
+      } catch (error) {
+        return toolError(error, "analyzing trades");
+      }
+    }
+  );
+
+  // Add a tool for trader analytics beyond P/L
+  server.registerTool(
+    "getTradingMetrics",
+    {
+      description: "Trading performance metrics of a Solana wallet: holding times, win/loss streaks, average win vs loss, profit factor, max drawdown, token and DEX leaderboards, and activity by hour and weekday",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address to analyze"),
+        ...historyRangeParams,
+        timeZone: z.string().optional().describe("IANA time zone for the hour and weekday distributions (default 'UTC')")
+      },
+      outputSchema: {
+        walletAddress: z.string(),
+        metrics: tradingMetricsSchema
+      }
+    },
+    async ({ walletAddress, timeZone, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const { stats, disposals } = await walletAnalyzer.analyzeWithDisposals(walletAddress, buildAnalyzeOptions(range, extra));
+        const metrics = timeZone
+          ? computeTradingMetrics(stats.tradeHistory, disposals, { timeZone, symbol: mint => tokenRegistry.symbol(mint) })
+          : stats.metrics;
+
+        return {
+          content: [{ type: "text", text: `Trading Metrics for ${walletAddress} (${stats.closedTrades} closed of ${stats.totalTrades} trades):\n\n${formatTradingMetrics(metrics, 10)}` }],
+          structuredContent: { walletAddress, metrics }
+        };
+      } catch (error) {
+        return toolError(error, "computing trading metrics");
+      }
+    }
+  );
+
+  // Add a tool to compare wallets and detect copy trading
+  server.registerTool(
+    "compareWallets",
+    {
+      description: "Compare two or more Solana wallets: tokens they both traded and who entered first, how closely each wallet mirrors another's buys and sells, and win rate and P/L side by side",
+      inputSchema: {
+        walletAddresses: z.array(solanaAddressParam).min(2).max(10).describe("The Solana wallet addresses to compare"),
+        windowMinutes: z.number().positive().optional().describe("How soon after one wallet's trade the same trade by another counts as mirroring (default 60)"),
+        ...historyRangeParams
+      },
+      outputSchema: walletComparisonSchema.shape
+    },
+    async ({ walletAddresses, windowMinutes, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const comparison = await walletComparer.compare(walletAddresses, {
+          ...buildAnalyzeOptions(range, extra),
+          ...(windowMinutes !== undefined ? { windowSeconds: windowMinutes * 60 } : {})
+        });
+        return {
+          content: [{ type: "text", text: formatWalletComparison(comparison) }],
+          structuredContent: { ...comparison }
+        };
+      } catch (error) {
+        return toolError(error, "comparing wallets");
+      }
+    }
+  );
+
+  // Add a tool to generate end of day report
+  server.registerTool(
+    "getEndOfDayReport",
+    {
+      description: "Generate an end-of-day trading report for a Solana wallet",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address to generate report for"),
+        ...historyRangeParams
+      },
+      outputSchema: endOfDayReportSchema.shape
+    },
+    async ({ walletAddress, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const report = await walletAnalyzer.buildEndOfDayReport(walletAddress, buildAnalyzeOptions(range, extra));
+        
+        return {
+          content: [{ 
+            type: "text", 
+            text: formatEndOfDayReport(report)
+          }],
+          structuredContent: { ...report }
+        };
+      } catch (error) {
+        return toolError(error, "generating report");
+      }
+    }
+  );
+
+  // Add a tool to generate a daily, weekly or monthly report
+  server.registerTool(
+    "getTradingReport",
+    {
+      description: "Trading report for a calendar day, week or month of a Solana wallet in a given time zone, compared with the previous period and broken down per hour or day, as text or Markdown",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address to report on"),
+        period: z.enum(REPORT_PERIODS).optional().describe("'day' (default), 'week' (Monday to Sunday) or 'month'"),
+        date: z.string().optional().describe("Any date inside the period as YYYY-MM-DD in the time zone (default today)"),
+        timeZone: z.string().optional().describe("IANA time zone the period and times follow, e.g. 'Europe/Berlin' (default 'UTC')"),
+        format: z.enum(REPORT_FORMATS).optional().describe("'text' (default) or 'markdown' for pasting into notes"),
+        maxTransactions: historyRangeParams.maxTransactions,
+        accountingMethod: historyRangeParams.accountingMethod
+      },
+      outputSchema: periodReportSchema.shape
+    },
+    async ({ walletAddress, period, date, timeZone, format, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const report = await periodReporter.build(walletAddress, { ...buildAnalyzeOptions(range, extra), period, date, timeZone });
+        return {
+          content: [{ type: "text", text: formatPeriodReport(report, format) }],
+          structuredContent: { ...report }
+        };
+      } catch (error) {
+        return toolError(error, "generating trading report");
+      }
+    }
+  );
+
+  // Add a tool to show a wallet's current balances
+  server.registerTool(
+    "getWalletHoldings",
+    {
+      description: "Current SOL and SPL/Token-2022 balances of a Solana wallet, valued with total value and allocation per position",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address"),
+        vsCurrency: z.string().optional().describe("Currency to value holdings in (default 'usd')"),
+        minValue: z.number().nonnegative().optional().describe("Hide dust: holdings worth less than this"),
+        includeSpam: z.boolean().optional().describe("Include unpriced tokens that look like spam airdrops (default false)"),
+        includeZeroValue: z.boolean().optional().describe("Include holdings without a price (default true)")
+      },
+      outputSchema: walletHoldingsSchema.shape
+    },
+    async ({ walletAddress, ...options }) => {
+      try {
+        requireHeliusApiKey();
+        const result = await holdingsService.getHoldings(walletAddress, options);
+        return {
+          content: [{ type: "text", text: formatHoldings(result) }],
+          structuredContent: { ...result }
+        };
+      } catch (error) {
+        return toolError(error, "fetching holdings");
+      }
+    }
+  );
+
+  // Add a tool to list a wallet's classified transactions
+  server.registerTool(
+    "getWalletActivity",
+    {
+      description: "List a Solana wallet's transactions classified as swaps, transfers, airdrops, rewards, staking, liquidity, NFT trades and rent, with counts per category",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address"),
+        types: z.array(activityCategorySchema).optional().describe("Only list these categories (default all)"),
+        from: historyRangeParams.from,
+        to: historyRangeParams.to,
+        maxTransactions: historyRangeParams.maxTransactions,
+        limit: z.number().int().positive().optional().describe("Maximum number of activities to list, newest first (default 50)")
+      },
+      outputSchema: walletActivityReportSchema.shape
+    },
+    async ({ walletAddress, types, limit, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const report = await walletAnalyzer.getActivity(walletAddress, { ...buildAnalyzeOptions(range, extra), types, limit: limit ?? 50 });
+        return {
+          content: [{ type: "text", text: formatWalletActivity(report) }],
+          structuredContent: { ...report }
+        };
+      } catch (error) {
+        return toolError(error, "listing wallet activity");
+      }
+    }
+  );
+
+  // Add a tool to export a wallet's trade history for tax and accounting
+  server.registerTool(
+    "exportTrades",
+    {
+      description: "Export a Solana wallet's complete trade history for a date range to CSV/JSON files, including realized gains per disposal and Koinly/CoinTracker import formats",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address to export"),
+        ...historyRangeParams,
+        formats: z.array(z.enum(EXPORT_FORMATS)).optional()
+          .describe("Files to write: 'csv' and 'json' trade history, 'disposals' (cost basis, proceeds, gain/loss, fees and holding period per lot sold), 'koinly', 'cointracker'. Default csv, json and disposals")
+      },
+      outputSchema: {
+        walletAddress: z.string(),
+        from: z.string().optional(),
+        to: z.string().optional(),
+        trades: z.number(),
+        disposals: z.number(),
+        historyTruncated: z.boolean(),
+        files: z.array(z.object({
+          format: z.enum(EXPORT_FORMATS),
+          path: z.string(),
+          mimeType: z.string(),
+          rows: z.number()
+        }))
+      }
+    },
+    async ({ walletAddress, formats, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const result = await tradeExporter.export(walletAddress, { ...buildAnalyzeOptions(range, extra), formats });
+        const files = result.files.map(({ content, ...file }) => file);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported ${result.trades} trades and ${result.disposals} disposal rows for ${walletAddress}:\n` +
+                files.map(file => `- ${file.format}: ${file.path} (${file.rows} rows)`).join('\n') +
+                (result.historyTruncated ? '\nHistory is truncated, so early sales may lack a cost basis; raise maxTransactions to sync further back.' : '')
+            },
+            ...result.files.map(file => ({
+              type: "resource" as const,
+              resource: { uri: pathToFileURL(file.path).href, mimeType: file.mimeType, text: file.content }
+            }))
+          ],
+          structuredContent: { ...result, files }
+        };
+      } catch (error) {
+        return toolError(error, "exporting trades");
+      }
+    }
+  );
+
+  // Add a tool to sync a wallet's transactions into the local store
+  server.registerTool(
+    "syncWallet",
+    {
+      description: "Fetch a Solana wallet's new transactions into the local store (and older history back to `from`), so later analyses need no refetch",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address to sync"),
+        from: historyRangeParams.from.describe("Also backfill history back to this date/time (ISO 8601)"),
+        maxTransactions: historyRangeParams.maxTransactions
+      },
+      outputSchema: syncResultSchema.shape
+    },
+    async ({ walletAddress, from, maxTransactions }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const options = buildAnalyzeOptions({ from, maxTransactions }, extra);
+        const result = await transactionStore.sync(walletAddress, options);
+
+        return {
+          content: [{
+            type: "text",
+            text: `Fetched ${result.transactionsFetched} transactions, ${result.newTransactions} new${result.budgetExhausted ? ' (budget reached, sync again to continue)' : ''}\n${formatSyncStatus(result)}`
+          }],
+          structuredContent: { ...result }
+        };
+      } catch (error) {
+        return toolError(error, "syncing wallet");
+      }
+    }
+  );
+
+  // Add a tool to show what the local store holds for a wallet
+  server.registerTool(
+    "getSyncStatus",
+    {
+      description: "Show how much of a Solana wallet's history is stored locally and when it was last synced",
+      inputSchema: {
+        walletAddress: solanaAddressParam.describe("The Solana wallet address")
+      },
+      outputSchema: syncStatusSchema.shape
+    },
+    async ({ walletAddress }) => {
+      try {
+        const status = await transactionStore.getStatus(walletAddress);
+        return {
+          content: [{ type: "text", text: formatSyncStatus(status) }],
+          structuredContent: { ...status }
+        };
+      } catch (error) {
+        return toolError(error, "reading sync status");
+      }
+    }
+  );
+
+  // Add a tool to create or update a named portfolio of wallets
+  server.registerTool(
+    "savePortfolio",
+    {
+      description: "Create a named portfolio of Solana wallets, or replace the wallets of an existing one",
+      inputSchema: {
+        name: z.string().describe("Portfolio name: letters, digits, '-' and '_'"),
+        wallets: z.array(z.object({
+          address: solanaAddressParam.describe("Solana wallet address"),
+          label: z.string().optional().describe("Optional label, e.g. 'hot wallet'")
+        })).min(1).describe("The wallets in the portfolio")
+      },
+      outputSchema: {
+        portfolio: portfolioSchema
+      }
+    },
+    async ({ name, wallets }) => {
+      try {
+        const portfolio = await portfolioManager.save(name, wallets);
+        server.sendResourceListChanged();
+        return {
+          content: [{ type: "text", text: `Saved portfolio:\n${formatPortfolio(portfolio)}` }],
+          structuredContent: { portfolio: portfolioView(portfolio) }
+        };
+      } catch (error) {
+        return toolError(error, "saving portfolio");
+      }
+    }
+  );
+
+  // Add a tool to list portfolios
+  server.registerTool(
+    "listPortfolios",
+    {
+      description: "List the named wallet portfolios",
+      outputSchema: {
+        portfolios: z.array(portfolioSchema)
+      }
+    },
+    async () => {
+      const portfolios = await portfolioManager.list();
+      return {
+        content: [{ type: "text", text: portfolios.length > 0 ? `Portfolios:\n${portfolios.map(formatPortfolio).join('\n')}` : "No portfolios" }],
+        structuredContent: { portfolios: portfolios.map(portfolioView) }
+      };
+    }
+  );
+
+  // Add a tool to delete a portfolio
+  server.registerTool(
+    "deletePortfolio",
+    {
+      description: "Delete a named portfolio. The wallets' stored history is kept",
+      inputSchema: {
+        name: z.string().describe("Name of the portfolio to delete")
+      },
+      outputSchema: {
+        name: z.string(),
+        deleted: z.boolean()
+      }
+    },
+    async ({ name }) => {
+      const deleted = await portfolioManager.delete(name);
+      if (deleted) {
+        server.sendResourceListChanged();
+      }
+      return {
+        content: [{ type: "text", text: deleted ? `Deleted portfolio ${name}` : `No portfolio named ${name}` }],
+        structuredContent: { name, deleted },
+        ...(deleted ? {} : { isError: true })
+      };
+    }
+  );
+
+  // Add a tool to analyze a portfolio as a whole
+  server.registerTool(
+    "analyzePortfolio",
+    {
+      description: "Analyze all wallets of a portfolio together: combined and per-wallet P/L, with transfers between the portfolio's own wallets excluded from trades",
+      inputSchema: {
+        name: z.string().describe("Name of the portfolio to analyze"),
+        ...historyRangeParams
+      },
+      outputSchema: portfolioAnalysisSchema.shape
+    },
+    async ({ name, ...range }, extra) => {
+      try {
+        requireHeliusApiKey();
+        const analysis = await portfolioManager.analyze(name, buildAnalyzeOptions(range, extra));
+        return {
+          content: [{ type: "text", text: formatPortfolioAnalysis(analysis) }],
+          structuredContent: { ...analysis }
+        };
+      } catch (error) {
+        return toolError(error, "analyzing portfolio");
+      }
+    }
+  );
+
+  // Add a tool to create a price or wallet alert
+  server.registerTool(
+    "createAlert",
+    {
+      description: "Create a price threshold, price move or wallet swap alert. Subscribe to the returned alert:// resource to be notified when it fires",
+      inputSchema: {
+        type: z.enum(["price_above", "price_below", "price_change", "wallet_swap"]).describe("'price_above'/'price_below' a threshold, 'price_change' by a percentage, or 'wallet_swap' when a wallet swaps"),
+        cryptoId: z.string().optional().describe("Price alerts: the cryptocurrency as a CoinGecko id, symbol or name"),
+        vsCurrency: z.string().optional().describe("Price alerts: currency the price is quoted in (default 'usd')"),
+        threshold: z.number().positive().optional().describe("price_above/price_below: the price to cross"),
+        percent: z.number().positive().optional().describe("price_change: size of the move in percent, in either direction"),
+        walletAddress: solanaAddressParam.optional().describe("wallet_swap: the Solana wallet address to watch"),
+        minSol: z.number().positive().optional().describe("wallet_swap: only swaps with a SOL leg of at least this size"),
+        repeat: z.boolean().optional().describe("Keep the alert active after it fires (default true)")
+      },
+      outputSchema: {
+        alert: alertSchema
+      }
+    },
+    async ({ type, cryptoId, vsCurrency, threshold, percent, walletAddress, minSol, repeat }) => {
+      try {
+        let condition: AlertCondition;
+        if (type === "wallet_swap") {
+          if (!walletAddress) throw new AppError("invalid_input", "walletAddress is required for wallet_swap alerts");
+          requireHeliusApiKey();
+          condition = { kind: type, walletAddress, ...(minSol !== undefined ? { minSol } : {}) };
+        } else {
+          if (!cryptoId) throw new AppError("invalid_input", `cryptoId is required for ${type} alerts`);
+          const vs = normalizeVsCurrency(vsCurrency);
+          if (type === "price_change") {
+            if (percent === undefined) throw new AppError("invalid_input", "percent is required for price_change alerts");
+            condition = { kind: type, cryptoId, vsCurrency: vs, percent };
+          } else {
+            if (threshold === undefined) throw new AppError("invalid_input", `threshold is required for ${type} alerts`);
+            condition = { kind: type, cryptoId, vsCurrency: vs, threshold };
+          }
+        }
+
+        const alert = await alertManager.create(condition, repeat ?? true);
+        server.sendResourceListChanged();
+
+        return {
+          content: [{ type: "text", text: `Created alert ${alert.id} (${alertUri(alert.id)}): ${describeAlertCondition(alert.condition)}` }],
+          structuredContent: { alert: alertView(alert) }
+        };
+      } catch (error) {
+        return toolError(error, "creating alert");
+      }
+    }
+  );
+
+  // Add a tool to list alerts
+  server.registerTool(
+    "listAlerts",
+    {
+      description: "List price and wallet alerts with their status and latest events",
+      outputSchema: {
+        alerts: z.array(alertSchema)
+      }
+    },
+    async () => {
+      const alerts = await alertManager.list();
+      return {
+        content: [{ type: "text", text: alerts.length > 0 ? `Alerts:\n${alerts.map(formatAlert).join('\n')}` : "No alerts" }],
+        structuredContent: { alerts: alerts.map(alertView) }
+      };
+    }
+  );
+
+  // Add a tool to delete an alert
+  server.registerTool(
+    "deleteAlert",
+    {
+      description: "Delete an alert",
+      inputSchema: {
+        alertId: z.string().describe("Id of the alert to delete")
+      },
+      outputSchema: {
+        alertId: z.string(),
+        deleted: z.boolean()
+      }
+    },
+    async ({ alertId }) => {
+      const deleted = await alertManager.delete(alertId);
+      if (deleted) {
+        server.sendResourceListChanged();
+      }
+      return {
+        content: [{ type: "text", text: deleted ? `Deleted alert ${alertId}` : `No alert with id ${alertId}` }],
+        structuredContent: { alertId, deleted },
+        ...(deleted ? {} : { isError: true })
+      };
+    }
+  );
+
+  // Add a subscribable resource per alert
+  server.registerResource(
+    "alert",
+    new ResourceTemplate("alert://{alertId}", {
+      list: async () => ({
+        resources: (await alertManager.list()).map(alert => ({
+          name: describeAlertCondition(alert.condition),
+          uri: alertUri(alert.id)
+        }))
+      })
+    }),
+    { description: "An alert and the events it fired, as text and JSON. Subscribe to get notified when it fires" },
+    async (uri, params) => {
+      const alert = await alertManager.get(params.alertId as string);
+      if (!alert) {
+        return resourceError(uri, new AppError("not_found", `No alert with id ${params.alertId}`), "reading alert");
+      }
+      const events = alert.events.map(event => `  ${event.firedAt}: ${event.message}`).join('\n') || '  No events yet';
+      return resourceContents(uri, `${formatAlert(alert)}\nEvents:\n${events}`, alertView(alert));
+    }
+  );
+
+  // Add a resource for wallet analysis
+  server.registerResource(
+    "walletAnalysis",
+    new ResourceTemplate("wallet://{address}/analysis", { 
+      list: async () => ({
+        resources: []  // Empty list since this is a dynamic resource
+      })
+    }),
+    { description: "Trading analysis of a Solana wallet, as text and as JSON wallet stats" },
+    async (uri, params) => {
+      const walletAddress = params.address as string;
+      if (!isSolanaAddress(walletAddress)) {
+        return resourceError(uri, invalidAddress(walletAddress), "analyzing wallet");
+      }
+      try {
+        requireHeliusApiKey();
+        const stats = await walletAnalyzer.analyzeWallet(walletAddress);
+        return resourceContents(uri, formatWalletAnalysis(walletAddress, stats), { walletAddress, stats });
+      } catch (error) {
+        return resourceError(uri, error, "analyzing wallet");
+      }
+    }
+  );
+
+  // Add a subscribable resource with the trades stored for a wallet, updated by the webhook
+  server.registerResource(
+    "recentTrades",
+    new ResourceTemplate("wallet://{address}/recent-trades", {
+      list: async () => ({
+        resources: []  // Empty list since this is a dynamic resource
+      })
+    }),
+    {
+      description: `The ${RECENT_TRADES_LIMIT} newest trades stored for a Solana wallet, as text and JSON, without syncing. ` +
+        "Subscribe to get notified when the Helius webhook delivers new ones"
+    },
+    async (uri, params) => {
+      const walletAddress = params.address as string;
+      if (!isSolanaAddress(walletAddress)) {
+        return resourceError(uri, invalidAddress(walletAddress), "reading recent trades");
+      }
+      try {
+        const trades = await walletAnalyzer.getStoredTrades(walletAddress, RECENT_TRADES_LIMIT);
+        return resourceContents(uri, formatRecentTrades(walletAddress, trades), {
+          walletAddress,
+          trades: trades.map(trade => ({
+            ...trade,
+            tokenInSymbol: tokenRegistry.symbol(trade.tokenIn),
+            tokenOutSymbol: tokenRegistry.symbol(trade.tokenOut)
+          }))
+        });
+      } catch (error) {
+        return resourceError(uri, error, "reading recent trades");
+      }
+    }
+  );
+
+  // Add a resource for portfolio analysis
+  server.registerResource(
+    "portfolioAnalysis",
+    new ResourceTemplate("portfolio://{name}/analysis", {
+      list: async () => ({
+        resources: (await portfolioManager.list()).map(portfolio => ({
+          name: `Portfolio ${portfolio.name}`,
+          uri: portfolioUri(portfolio.name)
+        }))
+      })
+    }),
+    { description: "Combined and per-wallet trading analysis of a named portfolio, as text and JSON" },
+    async (uri, params) => {
+      try {
+        requireHeliusApiKey();
+        const analysis = await portfolioManager.analyze(params.name as string);
+        return resourceContents(uri, formatPortfolioAnalysis(analysis), analysis);
+      } catch (error) {
+        return resourceError(uri, error, "analyzing portfolio");
+      }
+    }
+  );
+
+  return server;
+}
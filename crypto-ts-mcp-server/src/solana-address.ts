@@ -0,0 +1,45 @@
+import { AppError } from './errors.js';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const PUBLIC_KEY_BYTES = 32;
+
+/**
+ * Number of bytes a base58 string decodes to, undefined when it is not base58
+ */
+function base58ByteLength(text: string): number | undefined {
+  const bytes: number[] = []; // Little-endian
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) return undefined;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading '1' stands for a leading zero byte
+  let zeros = 0;
+  while (zeros < text.length && text[zeros] === '1') zeros++;
+  return zeros + bytes.length;
+}
+
+/**
+ * Whether the string is a base58-encoded 32-byte public key, the form of every Solana wallet
+ * and mint address
+ */
+export function isSolanaAddress(address: string): boolean {
+  return address.length >= 32 && address.length <= 44 && base58ByteLength(address) === PUBLIC_KEY_BYTES;
+}
+
+export function assertSolanaAddress(address: string): void {
+  if (!isSolanaAddress(address)) {
+    throw new AppError('invalid_address', `Invalid Solana address "${address}"`, {
+      hint: 'Use a base58-encoded 32-byte public key, e.g. So11111111111111111111111111111111111111112'
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory for locally persisted data (token metadata, price history, ...).
+ * Defaults to `.cache` in the working directory, override with CACHE_DIR.
+ */
+export function getCacheDir(): string {
+  return process.env.CACHE_DIR ?? path.join(process.cwd(), '.cache');
+}
+
+export function cachePath(fileName: string): string {
+  return path.join(getCacheDir(), fileName);
+}
+
+/**
+ * Read a JSON file from the cache directory, returning `fallback` when it does not exist
+ * or cannot be parsed
+ */
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(cachePath(fileName), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Could not read ${fileName} from cache:`, error.message || error);
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file to the cache directory. Writes go to a temp file first so a crash
+ * never leaves a half-written cache behind.
+ */
+export async function writeJsonFile(fileName: string, data: unknown): Promise<void> {
+  const target = cachePath(fileName);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(temp, target);
+}
+
+/**
+ * Read a JSON Lines file from the cache directory. Returns an empty list when the file does not
+ * exist; a truncated last line (from a crash mid-append) is skipped.
+ */
+export async function readJsonLines<T>(fileName: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(cachePath(fileName), 'utf8');
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Could not read ${fileName} from cache:`, error.message || error);
+    }
+    return [];
+  }
+
+  const records: T[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      console.error(`Skipping unreadable line in ${fileName}`);
+    }
+  }
+  return records;
+}
+
+/**
+ * Append records to a JSON Lines file in the cache directory, one JSON document per line
+ */
+export async function appendJsonLines(fileName: string, records: unknown[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const target = cachePath(fileName);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.appendFile(target, records.map(record => JSON.stringify(record)).join('\n') + '\n', 'utf8');
+}
+
+/**
+ * Replace a JSON Lines file in the cache directory
+ */
+export async function writeJsonLines(fileName: string, records: unknown[]): Promise<void> {
+  const target = cachePath(fileName);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, records.map(record => JSON.stringify(record) + '\n').join(''), 'utf8');
+  await fs.rename(temp, target);
+}
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { SwapParser } from './swap-parser.js';
+import { SOL_MINT } from './position-ledger.js';
+import type { TokenRegistry } from './token-registry.js';
+
+const WALLET = 'GfsJWjmGXMfct8JMR9Lm9ySUnniZbnGUTQDbT8ipWf9U';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+// The recorded payloads carry their decimals, so the registry is never asked
+const parser = new SwapParser({ get: () => undefined } as unknown as TokenRegistry);
+
+const recorded = async (name: string) =>
+  JSON.parse(await readFile(new URL(`../testdata/helius/${name}.json`, import.meta.url), 'utf8'));
+
+const close = (actual: number | undefined, expected: number) =>
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+test('a multi-hop Jupiter route becomes one trade with its hops in order', async () => {
+  const trade = parser.parse(await recorded('jupiter-multi-hop'), WALLET)!;
+
+  assert.equal(trade.parsedFrom, 'swap-event');
+  assert.equal(trade.tokenIn, SOL_MINT);
+  close(trade.amountIn, 1);
+  assert.equal(trade.tokenOut, BONK);
+  close(trade.amountOut, 50_000_000);
+  assert.equal(trade.otherLegs, undefined);
+  assert.deepEqual(trade.route, [
+    { tokenIn: SOL_MINT, amountIn: 1, tokenOut: USDC, amountOut: 150, program: 'ORCA', programId: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc' },
+    { tokenIn: USDC, amountIn: 150, tokenOut: BONK, amountOut: 50_000_000, program: 'RAYDIUM', programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8' }
+  ]);
+  close(trade.fee, 0.000085);
+});
+
+test('wrapped SOL spent from the wallet\'s WSOL account is netted with native SOL', async () => {
+  const trade = parser.parse(await recorded('wsol-netting'), WALLET)!;
+
+  assert.equal(trade.parsedFrom, 'balance-deltas');
+  assert.equal(trade.tokenIn, SOL_MINT);
+  close(trade.amountIn, 1);
+  assert.equal(trade.tokenOut, BONK);
+  close(trade.amountOut, 50_000_000);
+  assert.equal(trade.otherLegs, undefined);
+});
+
+test('a swap paid in native SOL does not pair SOL with the pool\'s wrapped SOL', async () => {
+  const trade = parser.parse(await recorded('native-sol-payment'), WALLET)!;
+
+  assert.equal(trade.parsedFrom, 'swap-event');
+  assert.equal(trade.tokenIn, SOL_MINT);
+  close(trade.amountIn, 0.5);
+  assert.equal(trade.tokenOut, BONK);
+  close(trade.amountOut, 25_000_000);
+  assert.deepEqual(trade.route, [{ tokenIn: SOL_MINT, amountIn: 0.5, tokenOut: BONK, amountOut: 25_000_000, program: 'PUMP_AMM' }]);
+});
+
+test('without a swap event the trade comes from net balance changes, less fees, tips and rent', async () => {
+  const trade = parser.parse(await recorded('balance-deltas'), WALLET)!;
+
+  assert.equal(trade.parsedFrom, 'balance-deltas');
+  assert.equal(trade.tokenIn, SOL_MINT);
+  close(trade.amountIn, 0.25);
+  assert.equal(trade.tokenOut, USDC);
+  close(trade.amountOut, 37.5);
+  assert.equal(trade.source, 'METEORA');
+});
+
+test('a transaction that only wraps SOL is not a trade', async () => {
+  const tx = await recorded('wsol-netting');
+  tx.accountData = [
+    { account: WALLET, nativeBalanceChange: -600005000, tokenBalanceChanges: [] },
+    { ...tx.accountData[1], tokenBalanceChanges: [{ ...tx.accountData[1].tokenBalanceChanges[0], rawTokenAmount: { tokenAmount: '600000000', decimals: 9 } }] }
+  ];
+  assert.equal(parser.parse(tx, WALLET), null);
+});
@@ -0,0 +1,206 @@
+import { SOL_MINT } from './position-ledger.js';
+import { extractTradeCosts } from './trade-costs.js';
+import type { TokenRegistry } from './token-registry.js';
+import type { TradeInfo } from './wallet-analyzer.js';
+
+// One step of a routed swap, e.g. SOL → USDC on Orca, then USDC → BONK on Raydium
+export interface SwapHop {
+  tokenIn?: string;
+  amountIn?: number;
+  tokenOut?: string;
+  amountOut?: number;
+  program?: string; // AMM or program that executed the hop, e.g. 'ORCA' or 'RAYDIUM'
+  programId?: string;
+}
+
+// Token amounts that moved in or out of the wallet, netted per mint (native and wrapped SOL combined)
+type Deltas = Map<string, number>;
+
+const EPSILON = 1e-12;
+// Rent for token accounts opened or closed by a swap moves a little native SOL; it is not a leg
+const SOL_DUST = 0.003;
+
+const normalizeMint = (mint: string) => mint === 'SOL' ? SOL_MINT : mint;
+
+function addDelta(deltas: Deltas, mint: string, amount: number) {
+  const key = normalizeMint(mint);
+  deltas.set(key, (deltas.get(key) ?? 0) + amount);
+}
+
+/**
+ * Every mint a swap transaction touches, so decimals can be resolved before parsing
+ */
+export function swapMints(tx: any): string[] {
+  const swap = tx.events?.swap;
+  return [
+    ...(tx.tokenTransfers || []).map((transfer: any) => transfer.mint),
+    ...(tx.accountData || []).flatMap((data: any) => (data.tokenBalanceChanges || []).map((change: any) => change.mint)),
+    ...[...(swap?.tokenInputs || []), ...(swap?.tokenOutputs || [])].map((entry: any) => entry.mint),
+    ...(swap?.innerSwaps || []).flatMap((inner: any) =>
+      [...(inner.tokenInputs || []), ...(inner.tokenOutputs || [])].map((entry: any) => entry.mint))
+  ].filter((mint: unknown): mint is string => typeof mint === 'string');
+}
+
+/**
+ * Parses Helius SWAP transactions into trades. The `events.swap` payload is preferred: it holds
+ * the wallet's net native/token inputs and outputs plus the inner swaps of routed trades. Without
+ * it the trade is rebuilt from the wallet's net balance changes. Wrapped SOL counts as SOL, so
+ * wrapping and unwrapping inside the transaction cancels out.
+ */
+export class SwapParser {
+  constructor(private tokenRegistry: TokenRegistry) {}
+
+  parse(tx: any, walletAddress: string): TradeInfo | null {
+    const trade: TradeInfo = {
+      timestamp: tx.timestamp,
+      type: 'SWAP',
+      signature: tx.signature,
+      source: tx.source || 'Unknown'
+    };
+    if (tx.feePayer === walletAddress && typeof tx.fee === 'number') {
+      trade.fee = tx.fee / 1e9;
+    }
+    trade.costs = extractTradeCosts(tx, walletAddress);
+
+    const swap = tx.events?.swap;
+    const fromEvent = swap ? this.eventDeltas(swap, walletAddress) : undefined;
+    const deltas = fromEvent && fromEvent.size > 0 ? fromEvent : this.netDeltas(tx, walletAddress);
+    trade.parsedFrom = fromEvent && fromEvent.size > 0 ? 'swap-event' : 'balance-deltas';
+    if (trade.parsedFrom === 'balance-deltas' && deltas.has(SOL_MINT)) {
+      // The wallet's SOL change also paid tips and rent, which are costs rather than part of the leg
+      const { jitoTip, rentPaid, rentRefunded } = trade.costs;
+      addDelta(deltas, SOL_MINT, jitoTip + rentPaid - rentRefunded);
+    }
+
+    const tokenLegs = [...deltas.entries()].filter(([mint, amount]) => mint !== SOL_MINT && Math.abs(amount) > EPSILON).length;
+    const legs = [...deltas.entries()].filter(([mint, amount]) =>
+      Math.abs(amount) > (mint === SOL_MINT && tokenLegs >= 2 ? SOL_DUST : EPSILON));
+    const inputs = legs.filter(([, amount]) => amount < 0);
+    const outputs = legs.filter(([, amount]) => amount > 0);
+    if (inputs.length === 0 || outputs.length === 0) {
+      return null; // Nothing left once native and wrapped SOL are netted, e.g. a plain wrap
+    }
+
+    // With several legs on one side the SOL leg is the primary one, otherwise the largest amount moved
+    const primary = (side: [string, number][]) => side.find(([mint]) => mint === SOL_MINT)
+      ?? side.reduce((best, leg) => Math.abs(leg[1]) > Math.abs(best[1]) ? leg : best);
+    const [tokenIn, amountIn] = primary(inputs);
+    const [tokenOut, amountOut] = primary(outputs);
+    trade.tokenIn = tokenIn;
+    trade.amountIn = -amountIn;
+    trade.tokenOut = tokenOut;
+    trade.amountOut = amountOut;
+
+    if (inputs.length > 1 || outputs.length > 1) {
+      trade.otherLegs = legs
+        .filter(([mint]) => mint !== tokenIn && mint !== tokenOut)
+        .map(([mint, amount]) => ({ mint, amount }));
+    }
+
+    trade.route = swap ? this.route(swap) : [];
+    if (trade.route.length === 0) {
+      trade.route = [{ tokenIn, amountIn: trade.amountIn, tokenOut, amountOut, program: trade.source }];
+    }
+    return trade;
+  }
+
+  /**
+   * Net inputs and outputs from the swap event, limited to the wallet's own accounts
+   */
+  private eventDeltas(swap: any, walletAddress: string): Deltas {
+    const deltas: Deltas = new Map();
+    const ours = (entry: any) => !entry.userAccount || entry.userAccount === walletAddress;
+
+    if (swap.nativeInput && (!swap.nativeInput.account || swap.nativeInput.account === walletAddress)) {
+      addDelta(deltas, SOL_MINT, -Number(swap.nativeInput.amount) / 1e9);
+    }
+    if (swap.nativeOutput && (!swap.nativeOutput.account || swap.nativeOutput.account === walletAddress)) {
+      addDelta(deltas, SOL_MINT, Number(swap.nativeOutput.amount) / 1e9);
+    }
+    for (const input of (swap.tokenInputs || []).filter(ours)) {
+      addDelta(deltas, input.mint, -this.amount(input));
+    }
+    for (const output of (swap.tokenOutputs || []).filter(ours)) {
+      addDelta(deltas, output.mint, this.amount(output));
+    }
+    return deltas;
+  }
+
+  /**
+   * Net change of the wallet's token and native balances in any transaction, fee excluded.
+   * Token balance changes in `accountData` are exact; token transfers to and from the wallet
+   * are the fallback.
+   */
+  netDeltas(tx: any, walletAddress: string): Deltas {
+    const deltas: Deltas = new Map();
+
+    const balanceChanges = (tx.accountData || []).flatMap((data: any) =>
+      (data.tokenBalanceChanges || []).filter((change: any) => change.userAccount === walletAddress));
+    if (balanceChanges.length > 0) {
+      for (const change of balanceChanges) {
+        addDelta(deltas, change.mint, this.amount(change));
+      }
+    } else {
+      for (const transfer of tx.tokenTransfers || []) {
+        if (transfer.fromUserAccount === walletAddress) addDelta(deltas, transfer.mint, -this.amount(transfer));
+        if (transfer.toUserAccount === walletAddress) addDelta(deltas, transfer.mint, this.amount(transfer));
+      }
+    }
+
+    // Native SOL, excluding the network fee the wallet paid
+    const walletAccount = (tx.accountData || []).find((data: any) => data.account === walletAddress);
+    if (walletAccount) {
+      const fee = tx.feePayer === walletAddress ? (tx.fee || 0) : 0;
+      addDelta(deltas, SOL_MINT, (walletAccount.nativeBalanceChange + fee) / 1e9);
+    } else if (!deltas.has(SOL_MINT)) {
+      // SOL that moved as wrapped SOL already counted; native transfers would only repeat the wrap
+      for (const transfer of tx.nativeTransfers || []) {
+        if (transfer.fromUserAccount === walletAddress) addDelta(deltas, SOL_MINT, -transfer.amount / 1e9);
+        if (transfer.toUserAccount === walletAddress) addDelta(deltas, SOL_MINT, transfer.amount / 1e9);
+      }
+    }
+    return deltas;
+  }
+
+  /**
+   * Hops of a routed swap from the inner swaps, in execution order
+   */
+  private route(swap: any): SwapHop[] {
+    return (swap.innerSwaps || []).map((inner: any) => {
+      const input = (inner.tokenInputs || [])[0];
+      const output = (inner.tokenOutputs || [])[0];
+      const hop: SwapHop = {};
+      if (input) {
+        hop.tokenIn = normalizeMint(input.mint);
+        hop.amountIn = this.amount(input);
+      }
+      if (output) {
+        hop.tokenOut = normalizeMint(output.mint);
+        hop.amountOut = this.amount(output);
+      }
+      const program = inner.programInfo?.source || inner.programInfo?.programName;
+      if (program) hop.program = program;
+      if (inner.programInfo?.account) hop.programId = inner.programInfo.account;
+      return hop;
+    });
+  }
+
+  /**
+   * UI amount of a token transfer, balance change or swap event entry. Raw amounts are scaled by
+   * the decimals reported with them or, failing that, the decimals resolved by the token registry.
+   */
+  private amount(entry: any): number {
+    if (entry.rawTokenAmount?.tokenAmount !== undefined) {
+      const decimals = entry.rawTokenAmount.decimals ?? this.tokenRegistry.get(entry.mint)?.decimals;
+      if (decimals !== undefined) {
+        return parseFloat(entry.rawTokenAmount.tokenAmount) / Math.pow(10, decimals);
+      }
+    }
+
+    // Helius reports tokenAmount already scaled to the mint's decimals
+    if (typeof entry.tokenAmount === 'number') {
+      return entry.tokenAmount;
+    }
+    return parseFloat(entry.tokenAmount) || 0;
+  }
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatZonedDateTime, zonedTimestamp } from './time-zone.js';
+
+const local = (year: number, month: number, day: number, hour: number, timeZone: string) =>
+  formatZonedDateTime(zonedTimestamp(year, month, day, hour, timeZone), timeZone);
+
+test('wall-clock times round-trip on DST days', () => {
+  assert.equal(local(2025, 3, 9, 0, 'America/New_York'), '2025-03-09 00:00');
+  assert.equal(local(2025, 3, 9, 3, 'America/New_York'), '2025-03-09 03:00');
+  assert.equal(local(2025, 11, 2, 0, 'America/New_York'), '2025-11-02 00:00');
+  assert.equal(local(2025, 3, 30, 0, 'Europe/Berlin'), '2025-03-30 00:00');
+  assert.equal(local(2025, 10, 26, 0, 'Europe/Berlin'), '2025-10-26 00:00');
+  assert.equal(local(2025, 4, 6, 1, 'America/Santiago'), '2025-04-06 01:00');
+});
+
+test('a wall-clock time skipped by DST moves forward to the end of the gap', () => {
+  assert.equal(local(2025, 3, 9, 2, 'America/New_York'), '2025-03-09 03:00');
+  assert.equal(local(2025, 3, 30, 2, 'Europe/Berlin'), '2025-03-30 03:00');
+  // Santiago starts DST at midnight, so the day starts at 01:00
+  assert.equal(local(2025, 9, 7, 0, 'America/Santiago'), '2025-09-07 01:00');
+  assert.equal(zonedTimestamp(2025, 9, 7, 0, 'America/Santiago'), Date.UTC(2025, 8, 7, 4) / 1000);
+});
+
+test('out-of-range fields roll over', () => {
+  assert.equal(local(2025, 3, 0, 0, 'Europe/Berlin'), '2025-02-28 00:00');
+  assert.equal(local(2025, 13, 1, 0, 'UTC'), '2026-01-01 00:00');
+});
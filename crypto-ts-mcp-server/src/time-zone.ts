@@ -0,0 +1,105 @@
+import { AppError } from './errors.js';
+
+// Calendar arithmetic in IANA time zones on top of Intl, so reports can follow the caller's local day
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Monday … 6 = Sunday
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    try {
+      format = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        weekday: 'short'
+      });
+    } catch {
+      throw new AppError('invalid_input', `Unknown time zone "${timeZone}", use an IANA name such as 'UTC', 'Europe/Berlin' or 'America/New_York'`);
+    }
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Throws when the time zone is not a known IANA name
+ */
+export function assertTimeZone(timeZone: string): void {
+  formatter(timeZone);
+}
+
+/**
+ * Wall-clock date and time of a unix timestamp (seconds) in the time zone
+ */
+export function zonedDateTime(timestamp: number, timeZone: string): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const part of formatter(timeZone).formatToParts(new Date(timestamp * 1000))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * Unix timestamp (seconds) of a wall-clock time in the time zone. Out-of-range fields roll over
+ * (day 0 is the last day of the previous month), so callers can step by days or months. A time
+ * skipped when DST starts (e.g. midnight in America/Santiago) maps to the first instant after
+ * the gap.
+ */
+export function zonedTimestamp(year: number, month: number, day: number, hour: number, timeZone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour) / 1000;
+  const localWallClock = (timestamp: number) => {
+    const local = zonedDateTime(timestamp, timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) / 1000;
+  };
+  // The second pass corrects the offset when the first guess lands on the other side of a DST change
+  const guess = wallClock - (localWallClock(wallClock) - wallClock);
+  const timestamp = wallClock - (localWallClock(guess) - guess);
+  if (localWallClock(timestamp) === wallClock) return timestamp;
+
+  // No instant shows this wall-clock time. Of the two guesses, one uses the offset before the
+  // change and lands on the transition itself, the other lands before it on the previous day.
+  return Math.max(guess, timestamp);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * YYYY-MM-DD of a timestamp in the time zone
+ */
+export function formatZonedDate(timestamp: number, timeZone: string): string {
+  const local = zonedDateTime(timestamp, timeZone);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+}
+
+/**
+ * YYYY-MM-DD HH:mm of a timestamp in the time zone
+ */
+export function formatZonedDateTime(timestamp: number, timeZone: string): string {
+  const local = zonedDateTime(timestamp, timeZone);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)} ${pad(local.hour)}:${pad(local.minute)}`;
+}
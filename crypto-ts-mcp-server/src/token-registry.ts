@@ -0,0 +1,197 @@
+import { httpClient, apiBaseUrl } from './http-client.js';
+import { readJsonFile, writeJsonFile } from './storage.js';
+import { BUNDLED_TOKENS } from './token-list.js';
+
+export interface TokenMetadata {
+  mint: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  source: 'bundled' | 'helius' | 'on-chain';
+}
+
+const CACHE_FILE = 'token-registry.json';
+const METADATA_BATCH_SIZE = 100; // Maximum mints per Helius token-metadata request
+
+/**
+ * Shorten a mint address for display when no symbol is known
+ */
+export function shortMint(mint: string): string {
+  return mint.slice(0, 4) + '...' + mint.slice(-4);
+}
+
+/**
+ * Resolves SPL token mints to symbol, name, decimals and logo. Lookups go through an
+ * in-memory map backed by a cache file (seeded from the bundled token list), then the
+ * Helius token-metadata API, then a direct read of the mint account.
+ */
+export class TokenRegistry {
+  private heliusApiKey: string;
+  private requestTimeout: number = 10000;
+  private tokens: Map<string, TokenMetadata> = new Map();
+  private loaded: Promise<void> | null = null;
+
+  constructor(heliusApiKey: string) {
+    this.heliusApiKey = heliusApiKey;
+    for (const token of BUNDLED_TOKENS) {
+      this.tokens.set(token.mint, token);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<TokenMetadata[]>(CACHE_FILE, []).then(cached => {
+        for (const token of cached) {
+          // Bundled entries win over stale cache entries
+          if (!this.tokens.has(token.mint) || this.tokens.get(token.mint)!.source !== 'bundled') {
+            this.tokens.set(token.mint, token);
+          }
+        }
+        console.log(`Token registry loaded ${this.tokens.size} tokens`);
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Metadata already known to the registry, without any network access
+   */
+  get(mint: string): TokenMetadata | undefined {
+    return this.tokens.get(mint);
+  }
+
+  /**
+   * Display label for a mint: its symbol when known, otherwise the shortened address
+   */
+  symbol(mint?: string): string {
+    if (!mint) return 'Unknown';
+    if (mint === 'SOL') return 'SOL';
+    return this.tokens.get(mint)?.symbol || shortMint(mint);
+  }
+
+  async resolve(mint: string): Promise<TokenMetadata | undefined> {
+    const resolved = await this.resolveMany([mint]);
+    return resolved.get(mint);
+  }
+
+  /**
+   * Resolve metadata for a set of mints, fetching and caching whatever is not known yet.
+   * Mints that cannot be resolved anywhere are left out of the result.
+   */
+  async resolveMany(mints: string[]): Promise<Map<string, TokenMetadata>> {
+    await this.load();
+
+    const unique = [...new Set(mints.filter(mint => mint && mint !== 'SOL'))];
+    const missing = unique.filter(mint => !this.tokens.has(mint));
+
+    if (missing.length > 0) {
+      console.log(`Resolving metadata for ${missing.length} unknown mints`);
+      let added = 0;
+
+      for (let i = 0; i < missing.length; i += METADATA_BATCH_SIZE) {
+        const batch = missing.slice(i, i + METADATA_BATCH_SIZE);
+        for (const token of await this.fetchHeliusMetadata(batch)) {
+          this.tokens.set(token.mint, token);
+          added++;
+        }
+      }
+
+      // Anything Helius did not know about is read straight from the mint account
+      for (const mint of missing.filter(mint => !this.tokens.has(mint))) {
+        const token = await this.fetchOnChainMetadata(mint);
+        if (token) {
+          this.tokens.set(mint, token);
+          added++;
+        }
+      }
+
+      if (added > 0) {
+        await this.persist();
+      }
+    }
+
+    const result = new Map<string, TokenMetadata>();
+    for (const mint of unique) {
+      const token = this.tokens.get(mint);
+      if (token) result.set(mint, token);
+    }
+    return result;
+  }
+
+  private async persist() {
+    try {
+      const cached = [...this.tokens.values()].filter(token => token.source !== 'bundled');
+      await writeJsonFile(CACHE_FILE, cached);
+    } catch (error: any) {
+      console.error('Could not persist token registry cache:', error.message || error);
+    }
+  }
+
+  private async fetchHeliusMetadata(mints: string[]): Promise<TokenMetadata[]> {
+    try {
+      const response = await httpClient.post(
+        `${apiBaseUrl('helius')}/v0/token-metadata?api-key=${this.heliusApiKey}`,
+        { mintAccounts: mints, includeOffChain: true, disableCache: false },
+        { timeout: this.requestTimeout }
+      );
+
+      const tokens: TokenMetadata[] = [];
+      for (const entry of response.data || []) {
+        const decimals = entry.onChainAccountInfo?.accountInfo?.data?.parsed?.info?.decimals
+          ?? entry.legacyMetadata?.decimals;
+        if (typeof decimals !== 'number') continue;
+
+        const onChain = entry.onChainMetadata?.metadata?.data;
+        const offChain = entry.offChainMetadata?.metadata;
+        const legacy = entry.legacyMetadata;
+
+        tokens.push({
+          mint: entry.account,
+          symbol: (onChain?.symbol || offChain?.symbol || legacy?.symbol || shortMint(entry.account)).trim(),
+          name: (onChain?.name || offChain?.name || legacy?.name || entry.account).trim(),
+          decimals,
+          logoURI: offChain?.image || legacy?.logoURI,
+          source: 'helius'
+        });
+      }
+      return tokens;
+    } catch (error: any) {
+      console.error('Helius token metadata lookup failed:', error.message || error);
+      return [];
+    }
+  }
+
+  /**
+   * Read decimals (and Token-2022 metadata extension, when present) from the mint account
+   */
+  private async fetchOnChainMetadata(mint: string): Promise<TokenMetadata | undefined> {
+    try {
+      const response = await httpClient.post(
+        `${apiBaseUrl('heliusRpc')}/?api-key=${this.heliusApiKey}`,
+        {
+          jsonrpc: '2.0',
+          id: 'token-registry',
+          method: 'getAccountInfo',
+          params: [mint, { encoding: 'jsonParsed' }]
+        },
+        { timeout: this.requestTimeout }
+      );
+
+      const info = response.data?.result?.value?.data?.parsed?.info;
+      if (typeof info?.decimals !== 'number') return undefined;
+
+      const metadataExtension = (info.extensions || []).find((ext: any) => ext.extension === 'tokenMetadata');
+      return {
+        mint,
+        symbol: metadataExtension?.state?.symbol || shortMint(mint),
+        name: metadataExtension?.state?.name || mint,
+        decimals: info.decimals,
+        source: 'on-chain'
+      };
+    } catch (error: any) {
+      console.error(`On-chain mint lookup failed for ${mint}:`, error.message || error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { extractTradeCosts, venueName } from './trade-costs.js';
+import { SwapParser } from './swap-parser.js';
+import type { TokenRegistry } from './token-registry.js';
+
+const WALLET = 'GfsJWjmGXMfct8JMR9Lm9ySUnniZbnGUTQDbT8ipWf9U';
+const OTHER = '3gLESRnfLgzAqu6PwGhBwsiBsnQ7BAtyWHhZ5zNcDPMF';
+
+const recorded = async (name: string) =>
+  JSON.parse(await readFile(new URL(`../testdata/helius/${name}.json`, import.meta.url), 'utf8'));
+
+const assertCosts = (actual: Record<string, number>, expected: Record<string, number>) => {
+  for (const [key, value] of Object.entries(expected)) {
+    assert.ok(Math.abs(actual[key] - value) < 1e-12, `${key}: expected ${value}, got ${actual[key]}`);
+  }
+};
+
+test('fees split into base and priority, a Jito tip and the rent of a newly opened token account', async () => {
+  const costs = extractTradeCosts(await recorded('balance-deltas'), WALLET);
+  assertCosts({ ...costs }, {
+    networkFee: 0.000005,
+    priorityFee: 0.0001,
+    jitoTip: 0.001,
+    rentPaid: 0.00203928,
+    rentRefunded: 0,
+    total: 0.000005 + 0.0001 + 0.001 + 0.00203928
+  });
+});
+
+test('closing a token account refunds its rent without netting it against the costs', async () => {
+  const tx = await recorded('token-account-close');
+  assertCosts({ ...extractTradeCosts(tx, WALLET) }, { networkFee: 0.000005, priorityFee: 0, jitoTip: 0, rentPaid: 0, rentRefunded: 0.00203928, total: 0.000005 });
+
+  // The refund is not part of what the sale brought in
+  const trade = new SwapParser({ get: () => undefined } as unknown as TokenRegistry).parse(tx, WALLET)!;
+  assert.ok(Math.abs(trade.amountOut! - 0.25) < 1e-12, `expected 0.25 SOL, got ${trade.amountOut}`);
+});
+
+test('a wallet that did not pay the fee carries no fee, tip or rent', async () => {
+  const tx = await recorded('balance-deltas');
+  assertCosts({ ...extractTradeCosts({ ...tx, feePayer: OTHER }, WALLET) }, { networkFee: 0, priorityFee: 0, rentPaid: 0, total: 0.001 });
+  assertCosts({ ...extractTradeCosts(tx, OTHER) }, { networkFee: 0, priorityFee: 0, jitoTip: 0, rentPaid: 0, total: 0 });
+});
+
+test('native moves on a token account above the rent cap are not rent', async () => {
+  const tx = await recorded('balance-deltas');
+  tx.accountData[1].nativeBalanceChange = 3_000_001;
+  assert.equal(extractTradeCosts(tx, WALLET).rentPaid, 0);
+
+  // Wrapped SOL deposited into the account is not rent either, only what is left over
+  tx.accountData[1].tokenBalanceChanges.push({
+    userAccount: WALLET,
+    tokenAccount: tx.accountData[1].account,
+    mint: 'So11111111111111111111111111111111111111112',
+    rawTokenAmount: { tokenAmount: '1000000', decimals: 9 }
+  });
+  assertCosts({ ...extractTradeCosts(tx, WALLET) }, { rentPaid: 0.002000001 });
+});
+
+test('Helius sources map to the venues traders know', () => {
+  assert.equal(venueName('JUPITER'), 'Jupiter');
+  assert.equal(venueName('PUMP_AMM'), 'Pump.fun');
+  assert.equal(venueName('WHIRLPOOL'), 'Orca');
+  assert.equal(venueName('SOME_NEW_DEX'), 'Some New Dex');
+  assert.equal(venueName(undefined), 'Unknown');
+});
@@ -0,0 +1,115 @@
+import { SOL_MINT } from './position-ledger.js';
+import type { WalletStats } from './wallet-analyzer.js';
+
+// What a swap cost beyond the trade itself, in SOL
+export interface CostBreakdown {
+  networkFee: number; // Base fee, 5000 lamports per signature
+  priorityFee: number; // Compute-unit price paid on top of the base fee
+  jitoTip: number; // Transfers to Jito tip accounts for bundle inclusion
+  rentPaid: number; // Deposits for token accounts the swap opened
+}
+
+export interface TradeCosts extends CostBreakdown {
+  total: number; // Sum of the breakdown
+  rentRefunded: number; // Deposits returned by token accounts the swap closed, not netted against the total
+}
+
+const LAMPORTS_PER_SOL = 1e9;
+const BASE_FEE_LAMPORTS = 5000;
+// Token account deposits are about 0.002 SOL; larger native moves on a token account are not rent
+const MAX_RENT_LAMPORTS = 3_000_000;
+
+// Jito's mainnet tip payment accounts
+const JITO_TIP_ACCOUNTS = new Set([
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT'
+]);
+
+export const emptyCostBreakdown = (): CostBreakdown => ({ networkFee: 0, priorityFee: 0, jitoTip: 0, rentPaid: 0 });
+
+/**
+ * Costs the wallet carried in a Helius transaction. Fees count only when the wallet paid them;
+ * enhanced transactions do not list signatures, so one signature is assumed for the base fee.
+ * Rent is the native balance change of the wallet's token accounts, less the wrapped SOL they hold.
+ */
+export function extractTradeCosts(tx: any, walletAddress: string): TradeCosts {
+  const feePayer = tx.feePayer === walletAddress;
+  const fee = feePayer && typeof tx.fee === 'number' ? tx.fee : 0;
+  const networkFee = Math.min(fee, BASE_FEE_LAMPORTS);
+
+  const jitoTip = (tx.nativeTransfers || [])
+    .filter((transfer: any) => transfer.fromUserAccount === walletAddress && JITO_TIP_ACCOUNTS.has(transfer.toUserAccount))
+    .reduce((sum: number, transfer: any) => sum + (Number(transfer.amount) || 0), 0);
+
+  let rentPaid = 0;
+  let rentRefunded = 0;
+  for (const data of tx.accountData || []) {
+    const changes = (data.tokenBalanceChanges || []).filter((change: any) =>
+      change.userAccount === walletAddress && (!change.tokenAccount || change.tokenAccount === data.account));
+    if (changes.length === 0 || typeof data.nativeBalanceChange !== 'number') continue;
+
+    const wrapped = changes
+      .filter((change: any) => change.mint === SOL_MINT)
+      .reduce((sum: number, change: any) => sum + (parseFloat(change.rawTokenAmount?.tokenAmount) || 0), 0);
+    const rent = data.nativeBalanceChange - wrapped;
+    if (Math.abs(rent) > MAX_RENT_LAMPORTS) continue;
+    if (rent > 0 && feePayer) rentPaid += rent;
+    if (rent < 0) rentRefunded -= rent;
+  }
+
+  const costs: CostBreakdown = {
+    networkFee: networkFee / LAMPORTS_PER_SOL,
+    priorityFee: (fee - networkFee) / LAMPORTS_PER_SOL,
+    jitoTip: jitoTip / LAMPORTS_PER_SOL,
+    rentPaid: rentPaid / LAMPORTS_PER_SOL
+  };
+  return {
+    ...costs,
+    total: costs.networkFee + costs.priorityFee + costs.jitoTip + costs.rentPaid,
+    rentRefunded: rentRefunded / LAMPORTS_PER_SOL
+  };
+}
+
+// Helius source labels grouped into the venues traders know, checked in order
+const VENUES: [RegExp, string][] = [
+  [/^JUPITER/, 'Jupiter'],
+  [/^RAYDIUM/, 'Raydium'],
+  [/^PUMP_(FUN|AMM)/, 'Pump.fun'],
+  [/^(ORCA|WHIRLPOOL)/, 'Orca'],
+  [/^METEORA/, 'Meteora'],
+  [/^PHOENIX/, 'Phoenix'],
+  [/^LIFINITY/, 'Lifinity'],
+  [/^(OPENBOOK|SERUM)/, 'OpenBook'],
+  [/^OKX/, 'OKX'],
+  [/^MOONSHOT/, 'Moonshot']
+];
+
+/**
+ * Venue of a Helius source label, e.g. 'PUMP_AMM' → 'Pump.fun'. Unlisted labels are title-cased.
+ */
+export function venueName(source?: string): string {
+  const label = (source || 'UNKNOWN').toUpperCase();
+  const venue = VENUES.find(([pattern]) => pattern.test(label));
+  if (venue) return venue[1];
+  return label.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ');
+}
+
+/**
+ * Cost lines of a wallet summary: totals with the breakdown, rent refunds and P/L after costs
+ */
+export function formatTradingCosts(
+  stats: Pick<WalletStats, 'totalCosts' | 'totalCostsUsd' | 'averageCost' | 'averageCostUsd' | 'costBreakdown' | 'rentRefunded' | 'rentRefundedUsd' | 'totalProfitLossAfterCosts' | 'totalProfitLossAfterCostsUsd'>,
+  prefix = ''
+): string {
+  const { networkFee, priorityFee, jitoTip, rentPaid } = stats.costBreakdown;
+  return `${prefix}Trading Costs: ${stats.totalCosts.toFixed(6)} SOL ($${stats.totalCostsUsd.toFixed(2)}), average ${stats.averageCost.toFixed(6)} SOL ($${stats.averageCostUsd.toFixed(2)}) per trade
+${' '.repeat(prefix.length)}   Network ${networkFee.toFixed(6)}, priority ${priorityFee.toFixed(6)}, Jito tips ${jitoTip.toFixed(6)}, rent ${rentPaid.toFixed(6)} SOL
+${prefix}Rent Refunded: ${stats.rentRefunded.toFixed(6)} SOL ($${stats.rentRefundedUsd.toFixed(2)})
+${prefix}P/L After Costs: ${stats.totalProfitLossAfterCosts.toFixed(4)} SOL ($${stats.totalProfitLossAfterCostsUsd.toFixed(2)})`;
+}
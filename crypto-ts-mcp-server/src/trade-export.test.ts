@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { TradeExporter } from './trade-export.js';
+import type { DisposalRow } from './trade-export.js';
+import type { Disposal } from './position-ledger.js';
+import type { TokenRegistry } from './token-registry.js';
+import type { TradeInfo, WalletAnalyzer } from './wallet-analyzer.js';
+
+const WALLET = 'GfsJWjmGXMfct8JMR9Lm9ySUnniZbnGUTQDbT8ipWf9U';
+const TOKEN = 'Token11111111111111111111111111111111111111';
+const at = (date: string) => Date.parse(date) / 1000;
+
+const disposal = (soldAt: string, lots: { amount: number; costBasis: number; acquiredAt: string }[], unmatched?: { amount: number; proceeds: number }): Disposal => {
+  const matched = lots.reduce((sum, lot) => sum + lot.amount, 0);
+  return {
+    mint: TOKEN,
+    amount: matched + (unmatched?.amount ?? 0),
+    proceeds: 300,
+    costBasis: lots.reduce((sum, lot) => sum + lot.costBasis, 0),
+    profitLoss: 0,
+    timestamp: at(soldAt),
+    signature: `sell-${soldAt}`,
+    lots: lots.map((lot, index) => ({ amount: lot.amount, costBasis: lot.costBasis, acquiredAt: at(lot.acquiredAt), acquiredSignature: `buy-${index}` })),
+    unmatchedAmount: unmatched?.amount ?? 0,
+    unmatchedProceeds: unmatched?.proceeds ?? 0
+  };
+};
+
+/**
+ * Export the disposals with a stub analysis and return the rows and the disposals CSV
+ */
+async function exportDisposals(disposals: Disposal[], symbol = 'TKN') {
+  const trades = disposals.map(item => ({ timestamp: item.timestamp, type: 'SWAP', signature: item.signature, feeUsd: 4 })) as TradeInfo[];
+  const walletAnalyzer = {
+    async analyzeWithDisposals() {
+      return { stats: { tradeHistory: trades, historyTruncated: false, accountingMethod: 'fifo' }, disposals };
+    }
+  } as unknown as WalletAnalyzer;
+  const exportDir = await mkdtemp(path.join(tmpdir(), 'exports-'));
+  try {
+    const exporter = new TradeExporter(walletAnalyzer, { symbol: () => symbol } as unknown as TokenRegistry, exportDir);
+    const { files } = await exporter.export(WALLET, { formats: ['json', 'disposals'] });
+    const rows: DisposalRow[] = JSON.parse(files[0].content).disposals;
+    return { rows, csv: files[1].content.trimEnd().split('\n') };
+  } finally {
+    await rm(exportDir, { recursive: true, force: true });
+  }
+}
+
+test('a sale is split per lot with proceeds and fee shared by amount, plus a row for the unmatched amount', async () => {
+  const { rows } = await exportDisposals([disposal('2024-06-01T12:00:00Z', [
+    { amount: 10, costBasis: 50, acquiredAt: '2024-01-01T00:00:00Z' },
+    { amount: 30, costBasis: 90, acquiredAt: '2024-02-01T00:00:00Z' }
+  ], { amount: 10, proceeds: 60 })]);
+
+  assert.equal(rows.length, 3);
+  assert.deepEqual(rows.map(row => [row.amount, row.proceedsUsd, row.costBasisUsd, row.gainLossUsd, row.feeUsd]), [
+    [10, 75, 50, 25, 0.8],
+    [30, 225, 90, 135, 2.4],
+    [10, 60, undefined, undefined, 0.8]
+  ]);
+  assert.equal(rows[0].acquisitionSignature, 'buy-0');
+  assert.equal(rows[2].dateAcquired, undefined);
+  assert.equal(rows[2].holdingPeriod, 'unknown');
+});
+
+test('the holding period is long only when sold after the first anniversary of the acquisition date', async () => {
+  const period = async (acquiredAt: string, soldAt: string) =>
+    (await exportDisposals([disposal(soldAt, [{ amount: 1, costBasis: 1, acquiredAt }])])).rows[0].holdingPeriod;
+
+  // 366 days across a leap day, but not more than a calendar year
+  assert.equal(await period('2023-03-01T10:00:00Z', '2024-03-01T09:00:00Z'), 'short');
+  assert.equal(await period('2023-03-01T10:00:00Z', '2024-03-01T23:00:00Z'), 'short');
+  assert.equal(await period('2023-03-01T10:00:00Z', '2024-03-02T00:00:00Z'), 'long');
+  assert.equal(await period('2024-02-29T10:00:00Z', '2025-02-28T23:00:00Z'), 'short');
+  assert.equal(await period('2024-02-29T10:00:00Z', '2025-03-01T00:00:00Z'), 'long');
+  assert.equal(await period('2024-12-31T23:00:00Z', '2025-12-31T23:59:59Z'), 'short');
+  assert.equal(await period('2024-12-31T23:00:00Z', '2026-01-01T00:00:00Z'), 'long');
+});
+
+test('CSV cells with commas, quotes or line breaks are quoted', async () => {
+  const { csv } = await exportDisposals([disposal('2024-06-01T12:00:00Z', [{ amount: 0.0000001, costBasis: 1, acquiredAt: '2024-01-01T00:00:00Z' }])], 'Say "gm",\nfren');
+  assert.equal(csv[0], 'description,token_mint,date_acquired,date_sold,holding_period,proceeds_usd,cost_basis_usd,gain_loss_usd,fee_usd,acquisition_signature,signature');
+  assert.equal(csv.slice(1).join('\n'),
+    `"0.0000001 Say ""gm"",\nfren",${TOKEN},2024-01-01T00:00:00.000Z,2024-06-01T12:00:00.000Z,short,300,1,299,4,buy-0,sell-2024-06-01T12:00:00Z`);
+});
@@ -0,0 +1,268 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WalletAnalyzer, TradeInfo, AnalyzeOptions } from './wallet-analyzer.js';
+import type { TokenRegistry } from './token-registry.js';
+import type { Disposal } from './position-ledger.js';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'disposals', 'koinly', 'cointracker'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportOptions extends Omit<AnalyzeOptions, 'from'> {
+  from?: number; // Unix timestamp (seconds); earlier trades still feed the cost basis but are not exported
+  formats?: ExportFormat[];
+}
+
+export interface ExportFile {
+  format: ExportFormat;
+  path: string;
+  mimeType: string;
+  rows: number;
+  content: string;
+}
+
+export interface ExportResult {
+  walletAddress: string;
+  from?: string; // ISO timestamps of the exported range
+  to?: string;
+  trades: number;
+  disposals: number;
+  historyTruncated: boolean;
+  files: ExportFile[];
+}
+
+// One row per acquisition lot consumed by a sale, as tax forms (e.g. Form 8949) expect
+export interface DisposalRow {
+  mint: string;
+  symbol: string;
+  amount: number;
+  dateAcquired?: string; // ISO, absent when the acquisition is not in the analyzed history
+  dateSold: string;
+  holdingPeriod: 'short' | 'long' | 'unknown';
+  proceedsUsd: number;
+  costBasisUsd?: number;
+  gainLossUsd?: number;
+  feeUsd: number; // Share of the selling trade's network fee
+  acquisitionSignature?: string;
+  signature: string;
+}
+
+const DEFAULT_FORMATS: ExportFormat[] = ['csv', 'json', 'disposals'];
+
+/**
+ * Directory exports are written to. Defaults to `exports` in the working directory, override with EXPORT_DIR.
+ */
+export function getExportDir(): string {
+  return process.env.EXPORT_DIR ?? path.join(process.cwd(), 'exports');
+}
+
+const isoDate = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+/**
+ * Long term when the sale date is after the first anniversary of the acquisition date (UTC
+ * calendar dates), so a leap day does not count as holding time. Lots bought on February 29
+ * have their anniversary on February 28.
+ */
+function holdingPeriod(acquiredAt: number, soldAt: number): 'short' | 'long' {
+  const acquired = new Date(acquiredAt * 1000);
+  const year = acquired.getUTCFullYear() + 1;
+  const month = acquired.getUTCMonth();
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const anniversary = new Date(Date.UTC(year, month, Math.min(acquired.getUTCDate(), lastDay))).toISOString().slice(0, 10);
+  return isoDate(soldAt).slice(0, 10) > anniversary ? 'long' : 'short';
+}
+
+/**
+ * Plain decimal notation (no exponent) with trailing zeros trimmed
+ */
+function decimal(value: number | undefined, digits = 9): string {
+  if (value === undefined || !isFinite(value)) return '';
+  const fixed = value.toFixed(digits);
+  return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+}
+
+function csvCell(value: string | number | undefined): string {
+  const text = typeof value === 'number' ? decimal(value) : value ?? '';
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(headers: string[], rows: (string | number | undefined)[][]): string {
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Writes a wallet's trade history and realized gains to CSV/JSON files, including importer formats
+ * for crypto tax tools. Every row carries the transaction signature for audit.
+ */
+export class TradeExporter {
+  constructor(private walletAnalyzer: WalletAnalyzer, private tokenRegistry: TokenRegistry, private exportDir: string = getExportDir()) {}
+
+  async export(walletAddress: string, options: ExportOptions = {}): Promise<ExportResult> {
+    const { from, formats, ...analyzeOptions } = options;
+
+    // Analyze from the start of the stored history so sales in range have their cost basis
+    const { stats, disposals } = await this.walletAnalyzer.analyzeWithDisposals(walletAddress, analyzeOptions);
+    const inRange = (timestamp: number) => from === undefined || timestamp >= from;
+
+    const trades = stats.tradeHistory.filter(trade => inRange(trade.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const disposalRows = this.disposalRows(disposals.filter(disposal => inRange(disposal.timestamp)), trades);
+
+    const range = `${from !== undefined ? isoDate(from).slice(0, 10) : 'start'}_${options.to !== undefined ? isoDate(options.to).slice(0, 10) : 'now'}`;
+    const baseName = `${walletAddress}_${range}`;
+    await fs.mkdir(this.exportDir, { recursive: true });
+
+    const files: ExportFile[] = [];
+    for (const format of [...new Set(formats && formats.length > 0 ? formats : DEFAULT_FORMATS)]) {
+      const file = this.render(format, walletAddress, trades, disposalRows, { from, to: options.to, accountingMethod: stats.accountingMethod });
+      const filePath = path.join(this.exportDir, `${baseName}_${format}.${format === 'json' ? 'json' : 'csv'}`);
+      await fs.writeFile(filePath, file.content, 'utf8');
+      files.push({ format, path: filePath, ...file });
+      console.log(`Exported ${file.rows} rows to ${filePath}`);
+    }
+
+    return {
+      walletAddress,
+      ...(from !== undefined ? { from: isoDate(from) } : {}),
+      ...(options.to !== undefined ? { to: isoDate(options.to) } : {}),
+      trades: trades.length,
+      disposals: disposalRows.length,
+      historyTruncated: stats.historyTruncated,
+      files
+    };
+  }
+
+  private render(
+    format: ExportFormat,
+    walletAddress: string,
+    trades: TradeInfo[],
+    disposals: DisposalRow[],
+    meta: { from?: number; to?: number; accountingMethod: string }
+  ): Omit<ExportFile, 'format' | 'path'> {
+    const symbol = (mint?: string) => this.tokenRegistry.symbol(mint);
+
+    switch (format) {
+      case 'json':
+        return {
+          mimeType: 'application/json',
+          rows: trades.length,
+          content: JSON.stringify({
+            walletAddress,
+            from: meta.from !== undefined ? isoDate(meta.from) : undefined,
+            to: meta.to !== undefined ? isoDate(meta.to) : undefined,
+            generatedAt: new Date().toISOString(),
+            accountingMethod: meta.accountingMethod,
+            trades: trades.map(trade => ({ ...trade, date: isoDate(trade.timestamp), tokenInSymbol: symbol(trade.tokenIn), tokenOutSymbol: symbol(trade.tokenOut) })),
+            disposals
+          }, null, 2)
+        };
+
+      case 'csv':
+        return {
+          mimeType: 'text/csv',
+          rows: trades.length,
+          content: toCsv(
+            ['date', 'type', 'source', 'token_in_symbol', 'token_in_mint', 'amount_in', 'token_out_symbol', 'token_out_mint', 'amount_out',
+              'value_in_usd', 'value_out_usd', 'fee_sol', 'fee_usd', 'costs_sol', 'costs_usd', 'rent_refunded_sol', 'realized_pl_sol', 'realized_pl_usd', 'signature'],
+            trades.map(trade => [
+              isoDate(trade.timestamp), trade.type, trade.source, symbol(trade.tokenIn), trade.tokenIn, trade.amountIn,
+              symbol(trade.tokenOut), trade.tokenOut, trade.amountOut, trade.valueInUsd, trade.valueOutUsd,
+              trade.fee, trade.feeUsd, trade.costs?.total, trade.costsUsd, trade.costs?.rentRefunded, trade.profitLoss, trade.profitLossUsd, trade.signature
+            ])
+          )
+        };
+
+      case 'disposals':
+        return {
+          mimeType: 'text/csv',
+          rows: disposals.length,
+          content: toCsv(
+            ['description', 'token_mint', 'date_acquired', 'date_sold', 'holding_period', 'proceeds_usd', 'cost_basis_usd', 'gain_loss_usd',
+              'fee_usd', 'acquisition_signature', 'signature'],
+            disposals.map(row => [
+              `${decimal(row.amount)} ${row.symbol}`, row.mint, row.dateAcquired ?? 'unknown', row.dateSold, row.holdingPeriod,
+              row.proceedsUsd, row.costBasisUsd, row.gainLossUsd, row.feeUsd, row.acquisitionSignature, row.signature
+            ])
+          )
+        };
+
+      case 'koinly':
+        // Koinly universal format; Koinly computes gains itself from the sent/received legs
+        return {
+          mimeType: 'text/csv',
+          rows: trades.length,
+          content: toCsv(
+            ['Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency', 'Fee Amount', 'Fee Currency',
+              'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash'],
+            trades.map(trade => [
+              isoDate(trade.timestamp).replace('T', ' ').slice(0, 19) + ' UTC',
+              trade.amountIn, trade.tokenIn ? symbol(trade.tokenIn) : '', trade.amountOut, trade.tokenOut ? symbol(trade.tokenOut) : '',
+              trade.fee, trade.fee !== undefined ? 'SOL' : '',
+              trade.valueOutUsd ?? trade.valueInUsd, (trade.valueOutUsd ?? trade.valueInUsd) !== undefined ? 'USD' : '',
+              '', `Swap on ${trade.source || 'Unknown'}`, trade.signature
+            ])
+          )
+        };
+
+      case 'cointracker':
+        return {
+          mimeType: 'text/csv',
+          rows: trades.length,
+          content: toCsv(
+            ['Date', 'Received Quantity', 'Received Currency', 'Sent Quantity', 'Sent Currency', 'Fee Amount', 'Fee Currency', 'Tag', 'Transaction Hash'],
+            trades.map(trade => {
+              const date = new Date(trade.timestamp * 1000).toISOString();
+              return [
+                `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)} ${date.slice(11, 19)}`,
+                trade.amountOut, trade.tokenOut ? symbol(trade.tokenOut) : '', trade.amountIn, trade.tokenIn ? symbol(trade.tokenIn) : '',
+                trade.fee, trade.fee !== undefined ? 'SOL' : '', '', trade.signature
+              ];
+            })
+          )
+        };
+    }
+  }
+
+  /**
+   * Split every disposal into one row per consumed lot, plus a row without cost basis for any
+   * amount sold that has no known acquisition
+   */
+  private disposalRows(disposals: Disposal[], trades: TradeInfo[]): DisposalRow[] {
+    const feesBySignature = new Map(trades.map(trade => [trade.signature, trade.feeUsd ?? 0]));
+    const matchedAmount = (disposal: Disposal) => disposal.amount - disposal.unmatchedAmount;
+    const rows: DisposalRow[] = [];
+
+    for (const disposal of disposals) {
+      const fee = feesBySignature.get(disposal.signature) ?? 0;
+      const symbol = this.tokenRegistry.symbol(disposal.mint);
+      const base = { mint: disposal.mint, symbol, dateSold: isoDate(disposal.timestamp), signature: disposal.signature };
+
+      for (const lot of disposal.lots) {
+        const proceeds = matchedAmount(disposal) > 0 ? disposal.proceeds * (lot.amount / matchedAmount(disposal)) : 0;
+        rows.push({
+          ...base,
+          amount: lot.amount,
+          dateAcquired: isoDate(lot.acquiredAt),
+          holdingPeriod: holdingPeriod(lot.acquiredAt, disposal.timestamp),
+          proceedsUsd: proceeds,
+          costBasisUsd: lot.costBasis,
+          gainLossUsd: proceeds - lot.costBasis,
+          feeUsd: fee * (lot.amount / disposal.amount),
+          acquisitionSignature: lot.acquiredSignature
+        });
+      }
+
+      if (disposal.unmatchedAmount > 1e-12) {
+        rows.push({
+          ...base,
+          amount: disposal.unmatchedAmount,
+          holdingPeriod: 'unknown',
+          proceedsUsd: disposal.unmatchedProceeds,
+          feeUsd: fee * (disposal.unmatchedAmount / disposal.amount)
+        });
+      }
+    }
+
+    return rows;
+  }
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTradingMetrics, formatDuration } from './trading-metrics.js';
+import { SOL_MINT } from './position-ledger.js';
+import type { Disposal } from './position-ledger.js';
+import type { TradeInfo } from './wallet-analyzer.js';
+
+const TOKEN = 'Token11111111111111111111111111111111111111';
+const START = Date.parse('2025-01-06T00:00:00Z') / 1000; // A Monday
+const HOUR = 3600;
+
+const buy = (timestamp: number): TradeInfo =>
+  ({ timestamp, type: 'SWAP', signature: `buy${timestamp}`, tokenIn: SOL_MINT, amountIn: 1, tokenOut: TOKEN, amountOut: 100, source: 'RAYDIUM' });
+
+// Closed trades in order, one hour apart, with the given SOL P/L
+const sells = (profits: number[]): TradeInfo[] => profits.map((profitLoss, index) => ({
+  timestamp: START + (index + 1) * HOUR,
+  type: 'SWAP',
+  signature: `sell${index}`,
+  tokenIn: TOKEN,
+  amountIn: 10,
+  tokenOut: SOL_MINT,
+  amountOut: 1,
+  source: 'JUPITER',
+  profitLoss
+}));
+
+const close = (actual: number | undefined, expected: number) =>
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+test('streaks, averages and profit factor follow the closed trades in time order', () => {
+  const trades = [buy(START), ...sells([2, 1, -1, -2, -0.5, 3])].reverse(); // Newest first, as analyses hand them over
+  const metrics = computeTradingMetrics(trades, []);
+
+  assert.equal(metrics.longestWinStreak, 2);
+  assert.equal(metrics.longestLossStreak, 3);
+  assert.equal(metrics.currentStreak, 1);
+  close(metrics.grossProfit, 6);
+  close(metrics.grossLoss, -3.5);
+  close(metrics.averageWin, 2);
+  close(metrics.averageLoss, -3.5 / 3);
+  close(metrics.profitFactor, 6 / 3.5);
+});
+
+test('the max drawdown runs from the highest cumulative P/L to the lowest point after it', () => {
+  const metrics = computeTradingMetrics(sells([2, 1, -1, -2, -0.5, 3]), []);
+  close(metrics.maxDrawdown, 3.5);
+  assert.equal(metrics.maxDrawdownStart, START + 2 * HOUR);
+  assert.equal(metrics.maxDrawdownEnd, START + 5 * HOUR);
+});
+
+test('losses before any profit draw down from zero at the first trade', () => {
+  const metrics = computeTradingMetrics([buy(START), ...sells([-1, -2, 0.5])], []);
+  close(metrics.maxDrawdown, 3);
+  assert.equal(metrics.maxDrawdownStart, START);
+  assert.equal(metrics.maxDrawdownEnd, START + 2 * HOUR);
+  assert.equal(metrics.currentStreak, 1);
+  assert.equal(metrics.longestLossStreak, 2);
+});
+
+test('without losses there is no profit factor and no drawdown', () => {
+  const metrics = computeTradingMetrics(sells([1, 2]), []);
+  assert.equal(metrics.profitFactor, undefined);
+  assert.equal(metrics.maxDrawdown, 0);
+  assert.equal(metrics.maxDrawdownStart, undefined);
+  assert.equal(metrics.averageLoss, 0);
+});
+
+test('activity is counted by local hour and weekday of the time zone', () => {
+  // Sunday 23:30 UTC is Monday 08:30 in Tokyo
+  const trades = [buy(START - 30 * 60), buy(START + 12 * HOUR)];
+  const utc = computeTradingMetrics(trades, []);
+  assert.equal(utc.tradesByHour[23], 1);
+  assert.equal(utc.tradesByHour[12], 1);
+  assert.deepEqual(utc.tradesByWeekday, [1, 0, 0, 0, 0, 0, 1]);
+
+  const tokyo = computeTradingMetrics(trades, [], { timeZone: 'Asia/Tokyo' });
+  assert.equal(tokyo.timeZone, 'Asia/Tokyo');
+  assert.equal(tokyo.tradesByHour[8], 1);
+  assert.equal(tokyo.tradesByHour[21], 1);
+  assert.deepEqual(tokyo.tradesByWeekday, [2, 0, 0, 0, 0, 0, 0]);
+});
+
+test('holding times are weighted by the amount of each sold lot', () => {
+  const disposal: Disposal = {
+    mint: TOKEN, amount: 40, proceeds: 4, costBasis: 2, profitLoss: 2, timestamp: START + 10 * HOUR, signature: 'sell',
+    lots: [
+      { amount: 10, costBasis: 0.5, acquiredAt: START, acquiredSignature: 'buy0' },
+      { amount: 30, costBasis: 1.5, acquiredAt: START + 6 * HOUR, acquiredSignature: 'buy1' }
+    ],
+    unmatchedAmount: 0,
+    unmatchedProceeds: 0
+  };
+  const metrics = computeTradingMetrics([buy(START), ...sells([2])], [disposal], { symbol: () => 'TKN' });
+
+  close(metrics.averageHoldingTime, (10 * 10 * HOUR + 30 * 4 * HOUR) / 40);
+  assert.equal(metrics.tokens[0].symbol, 'TKN');
+  close(metrics.tokens[0].averageHoldingTime, 5.5 * HOUR);
+  assert.equal(formatDuration(5.5 * HOUR), '5h 30m');
+  assert.deepEqual(metrics.sources.map(source => [source.source, source.trades, source.closedTrades]), [['Jupiter', 1, 1], ['Raydium', 1, 0]]);
+});
@@ -0,0 +1,255 @@
+import { SOL_MINT } from './position-ledger.js';
+import { zonedDateTime } from './time-zone.js';
+import { venueName } from './trade-costs.js';
+import type { Disposal } from './position-ledger.js';
+import type { TradeInfo } from './wallet-analyzer.js';
+
+// Leaderboard entry for a token or a venue
+export interface MetricsGroup {
+  trades: number;
+  closedTrades: number;
+  profitableTrades: number;
+  realizedProfitLoss: number; // SOL
+  realizedProfitLossUsd: number;
+  volumeSol: number; // SOL legs of the group's trades
+  volumeUsd: number; // USD value of the sold legs
+  costs: number; // Fees, tips and rent of the group's trades, in SOL
+  costsUsd: number;
+}
+
+export interface TokenMetrics extends MetricsGroup {
+  mint: string;
+  symbol: string;
+  averageHoldingTime?: number; // Seconds between buying and selling, amount-weighted over sold lots
+}
+
+export interface SourceMetrics extends MetricsGroup {
+  source: string; // Venue the swap is attributed to, e.g. 'Jupiter' or 'Pump.fun'
+  labels: string[]; // Helius source labels grouped into the venue, e.g. 'PUMP_FUN' and 'PUMP_AMM'
+}
+
+export interface TradingMetrics {
+  averageHoldingTime?: number; // Seconds, mean over sales with a known acquisition (SOL itself excluded)
+  longestWinStreak: number; // Consecutive profitable closed trades
+  longestLossStreak: number;
+  currentStreak: number; // Positive for a running win streak, negative for losses
+  averageWin: number; // SOL per profitable closed trade
+  averageLoss: number; // SOL per losing closed trade, negative
+  grossProfit: number;
+  grossLoss: number; // Negative
+  profitFactor?: number; // Gross profit over gross loss, undefined without losses
+  maxDrawdown: number; // Largest fall of cumulative realized P/L (SOL) from a previous peak
+  maxDrawdownStart?: number; // Unix timestamps of the peak and the trough
+  maxDrawdownEnd?: number;
+  tokens: TokenMetrics[]; // Best realized P/L first
+  sources: SourceMetrics[];
+  timeZone: string; // Zone of the activity distributions
+  tradesByHour: number[]; // 24 entries, local hour of day
+  tradesByWeekday: number[]; // 7 entries, Monday first
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const emptyGroup = (): MetricsGroup => ({
+  trades: 0,
+  closedTrades: 0,
+  profitableTrades: 0,
+  realizedProfitLoss: 0,
+  realizedProfitLossUsd: 0,
+  volumeSol: 0,
+  volumeUsd: 0,
+  costs: 0,
+  costsUsd: 0
+});
+
+function groupFor(groups: Map<string, MetricsGroup>, key: string): MetricsGroup {
+  let group = groups.get(key);
+  if (!group) {
+    group = emptyGroup();
+    groups.set(key, group);
+  }
+  return group;
+}
+
+/**
+ * Seconds the sold lots of a disposal were held, weighted by amount. Undefined when no lot
+ * of the sale was acquired inside the analyzed history.
+ */
+function holdingTime(disposal: Disposal): number | undefined {
+  const amount = disposal.lots.reduce((sum, lot) => sum + lot.amount, 0);
+  if (amount <= 0) return undefined;
+  return disposal.lots.reduce((sum, lot) => sum + lot.amount * (disposal.timestamp - lot.acquiredAt), 0) / amount;
+}
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+/**
+ * Trader analytics from a replayed trade history (trades carrying their realized P/L) and the
+ * USD ledger's disposals, which know when each sold lot was bought. Closed trades are the ones
+ * with a realized SOL P/L; a trade is attributed to every non-SOL token it moved.
+ */
+export function computeTradingMetrics(
+  trades: TradeInfo[],
+  disposals: Disposal[],
+  options: { timeZone?: string; symbol?: (mint: string) => string } = {}
+): TradingMetrics {
+  const timeZone = options.timeZone ?? 'UTC';
+  const chronological = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+  const metrics: TradingMetrics = {
+    longestWinStreak: 0,
+    longestLossStreak: 0,
+    currentStreak: 0,
+    averageWin: 0,
+    averageLoss: 0,
+    grossProfit: 0,
+    grossLoss: 0,
+    maxDrawdown: 0,
+    tokens: [],
+    sources: [],
+    timeZone,
+    tradesByHour: new Array(24).fill(0),
+    tradesByWeekday: new Array(7).fill(0)
+  };
+
+  const tokens = new Map<string, MetricsGroup>();
+  const sources = new Map<string, MetricsGroup>();
+  const sourceLabels = new Map<string, Set<string>>();
+  let wins = 0;
+  let losses = 0;
+  let cumulative = 0;
+  let peak = 0;
+  let peakAt: number | undefined;
+
+  for (const trade of chronological) {
+    const local = zonedDateTime(trade.timestamp, timeZone);
+    metrics.tradesByHour[local.hour]++;
+    metrics.tradesByWeekday[local.weekday]++;
+
+    const solSize = trade.tokenIn === SOL_MINT ? trade.amountIn ?? 0 : trade.tokenOut === SOL_MINT ? trade.amountOut ?? 0 : 0;
+    const mints = [...new Set([trade.tokenIn, trade.tokenOut])].filter((mint): mint is string => !!mint && mint !== SOL_MINT);
+    const venue = venueName(trade.source);
+    const source = groupFor(sources, venue);
+    sourceLabels.set(venue, (sourceLabels.get(venue) ?? new Set()).add(trade.source || 'UNKNOWN'));
+    for (const group of [...mints.map(mint => groupFor(tokens, mint)), source]) {
+      group.trades++;
+      group.volumeSol += solSize;
+      group.volumeUsd += trade.valueInUsd ?? 0;
+      group.costs += trade.costs?.total ?? trade.fee ?? 0;
+      group.costsUsd += trade.costsUsd ?? trade.feeUsd ?? 0;
+    }
+
+    if (trade.profitLoss === undefined) continue;
+
+    // Realized P/L belongs to the token that was sold and the venue that sold it
+    const closedGroups = trade.tokenIn && trade.tokenIn !== SOL_MINT ? [groupFor(tokens, trade.tokenIn), source] : [source];
+    for (const group of closedGroups) {
+      group.closedTrades++;
+      group.realizedProfitLoss += trade.profitLoss;
+      group.realizedProfitLossUsd += trade.profitLossUsd ?? 0;
+      if (trade.profitLoss > 0) group.profitableTrades++;
+    }
+
+    if (trade.profitLoss > 0) {
+      wins++;
+      metrics.grossProfit += trade.profitLoss;
+      metrics.currentStreak = metrics.currentStreak > 0 ? metrics.currentStreak + 1 : 1;
+      metrics.longestWinStreak = Math.max(metrics.longestWinStreak, metrics.currentStreak);
+    } else {
+      losses++;
+      metrics.grossLoss += trade.profitLoss;
+      metrics.currentStreak = metrics.currentStreak < 0 ? metrics.currentStreak - 1 : -1;
+      metrics.longestLossStreak = Math.max(metrics.longestLossStreak, -metrics.currentStreak);
+    }
+
+    // Drawdown of the cumulative realized P/L curve, which starts at zero
+    cumulative += trade.profitLoss;
+    if (cumulative > peak) {
+      peak = cumulative;
+      peakAt = trade.timestamp;
+    } else if (peak - cumulative > metrics.maxDrawdown) {
+      metrics.maxDrawdown = peak - cumulative;
+      metrics.maxDrawdownStart = peakAt ?? chronological[0].timestamp;
+      metrics.maxDrawdownEnd = trade.timestamp;
+    }
+  }
+
+  metrics.averageWin = wins > 0 ? metrics.grossProfit / wins : 0;
+  metrics.averageLoss = losses > 0 ? metrics.grossLoss / losses : 0;
+  if (metrics.grossLoss < 0) {
+    metrics.profitFactor = metrics.grossProfit / -metrics.grossLoss;
+  }
+
+  const holdingTimes = new Map<string, number[]>();
+  for (const disposal of disposals.filter(disposal => disposal.mint !== SOL_MINT)) {
+    const held = holdingTime(disposal);
+    if (held === undefined) continue;
+    const times = holdingTimes.get(disposal.mint);
+    if (times) {
+      times.push(held);
+    } else {
+      holdingTimes.set(disposal.mint, [held]);
+    }
+  }
+  const averageHoldingTime = mean([...holdingTimes.values()].flat());
+  if (averageHoldingTime !== undefined) metrics.averageHoldingTime = averageHoldingTime;
+
+  metrics.tokens = [...tokens].map(([mint, group]) => {
+    const held = mean(holdingTimes.get(mint) ?? []);
+    return { mint, symbol: options.symbol?.(mint) ?? mint, ...group, ...(held !== undefined ? { averageHoldingTime: held } : {}) };
+  }).sort((a, b) => b.realizedProfitLoss - a.realizedProfitLoss || b.trades - a.trades);
+  metrics.sources = [...sources].map(([source, group]) => ({ source, labels: [...sourceLabels.get(source)!], ...group }))
+    .sort((a, b) => b.realizedProfitLoss - a.realizedProfitLoss || b.trades - a.trades);
+
+  return metrics;
+}
+
+/**
+ * Duration in the largest sensible units, e.g. "3d 4h" or "12m"
+ */
+export function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return minutes > 0 ? `${minutes}m` : `${Math.round(seconds)}s`;
+}
+
+/**
+ * Plain-text sections for the metrics: performance, leaderboards (top `limit`) and activity
+ */
+export function formatTradingMetrics(metrics: TradingMetrics, limit = 5): string {
+  const leaderboard = (entries: (MetricsGroup & { name: string; held?: number })[]) => entries.slice(0, limit).map((entry, index) =>
+    `   ${index + 1}. ${entry.name}: ${entry.realizedProfitLoss.toFixed(4)} SOL ($${entry.realizedProfitLossUsd.toFixed(2)}), ` +
+    `${entry.trades} trades, ${entry.profitableTrades}/${entry.closedTrades} wins, ${entry.volumeSol.toFixed(4)} SOL volume ($${entry.volumeUsd.toFixed(2)}), ` +
+    `costs ${entry.costs.toFixed(6)} SOL ($${entry.costsUsd.toFixed(2)})` +
+    (entry.held !== undefined ? `, held ${formatDuration(entry.held)}` : '')
+  ).join('\n') || '   No trades';
+  const busiest = (counts: number[], label: (index: number) => string) => counts
+    .map((count, index) => ({ count, index }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 3)
+    .map(entry => `${label(entry.index)} (${entry.count})`)
+    .join(', ') || 'n/a';
+  const drawdownRange = metrics.maxDrawdownStart !== undefined && metrics.maxDrawdownEnd !== undefined
+    ? ` (${new Date(metrics.maxDrawdownStart * 1000).toISOString().slice(0, 10)} to ${new Date(metrics.maxDrawdownEnd * 1000).toISOString().slice(0, 10)})`
+    : '';
+
+  return `Performance:
+   Average Holding Time: ${metrics.averageHoldingTime !== undefined ? formatDuration(metrics.averageHoldingTime) : 'n/a'}
+   Average Win / Loss: ${metrics.averageWin.toFixed(4)} SOL / ${metrics.averageLoss.toFixed(4)} SOL
+   Profit Factor: ${metrics.profitFactor !== undefined ? metrics.profitFactor.toFixed(2) : 'n/a'}
+   Longest Streaks: ${metrics.longestWinStreak} wins, ${metrics.longestLossStreak} losses (current: ${metrics.currentStreak > 0 ? `${metrics.currentStreak} wins` : metrics.currentStreak < 0 ? `${-metrics.currentStreak} losses` : 'none'})
+   Max Drawdown: ${metrics.maxDrawdown.toFixed(4)} SOL${drawdownRange}
+
+Top Tokens:
+${leaderboard(metrics.tokens.map(token => ({ ...token, name: token.symbol, held: token.averageHoldingTime })))}
+
+Top Venues:
+${leaderboard(metrics.sources.map(source => ({ ...source, name: source.source })))}
+
+Activity (${metrics.timeZone}):
+   Busiest Hours: ${busiest(metrics.tradesByHour, hour => `${String(hour).padStart(2, '0')}:00`)}
+   Busiest Days: ${busiest(metrics.tradesByWeekday, day => WEEKDAYS[day])}`;
+}
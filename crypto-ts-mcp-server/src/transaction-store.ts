@@ -0,0 +1,376 @@
+import { httpClient, apiBaseUrl } from './http-client.js';
+import { appendJsonLines, readJsonFile, readJsonLines, writeJsonFile, writeJsonLines } from './storage.js';
+import { assertSolanaAddress, isSolanaAddress } from './solana-address.js';
+import type { TradeInfo } from './wallet-analyzer.js';
+
+export interface FetchProgress {
+  transactionsFetched: number;
+  pagesFetched: number;
+  maxTransactions: number;
+  oldestTimestamp?: number;
+}
+
+export interface SyncOptions {
+  from?: number; // Unix timestamp (seconds) the stored history should reach back to
+  maxTransactions?: number; // Upper bound on transactions fetched from Helius in this sync
+  onProgress?: (progress: FetchProgress) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+// Unfetched stretch of history between a head sync that ran out of budget and older stored history
+export interface SyncGap {
+  before: string; // Oldest signature fetched above the gap
+  until: string; // Newest signature stored below the gap
+}
+
+export interface SyncStatus {
+  walletAddress: string;
+  transactionCount: number;
+  tradeCount: number;
+  newestSignature?: string;
+  newestTimestamp?: number;
+  oldestSignature?: string;
+  oldestTimestamp?: number;
+  historyComplete: boolean; // The wallet's first transaction has been reached
+  gap?: SyncGap;
+  lastSyncedAt?: string; // ISO timestamp
+}
+
+export interface SyncResult extends SyncStatus {
+  transactionsFetched: number; // Transactions downloaded from Helius in this sync
+  newTransactions: number; // Of those, transactions that were not stored yet
+  budgetExhausted: boolean;
+}
+
+// Persisted part of the sync state; counts and the newest/oldest bounds are derived on load
+interface SyncState {
+  historyComplete: boolean;
+  gap?: SyncGap;
+  lastSyncedAt?: string;
+  tradeFormat?: number;
+  pushed?: string[]; // Signatures received by webhook that no sync has fetched yet; they do not move the sync cursor
+}
+
+interface StoredTrade {
+  signature: string;
+  trade: TradeInfo | null; // null for transactions that are not trades
+}
+
+interface WalletData {
+  address: string;
+  state: SyncState;
+  transactions: Map<string, any>;
+  trades: Map<string, TradeInfo | null>;
+}
+
+interface WalkResult {
+  transactions: any[];
+  reachedEnd: boolean; // An empty page came back: no more history (or the `until` signature was reached)
+  budgetExhausted: boolean;
+}
+
+export const DEFAULT_MAX_TRANSACTIONS = 1000;
+const PAGE_SIZE = 100; // Maximum page size accepted by the Helius transactions endpoint
+/**
+ * Local store of a wallet's parsed Helius transactions and the trades extracted from them.
+ * Transactions are appended to `wallets/<address>/transactions.jsonl` in the cache directory;
+ * syncs only fetch what is newer than the newest stored signature, plus older history when
+ * an analysis asks for a range that is not covered yet.
+ */
+export class TransactionStore {
+  private heliusApiKey: string;
+  private requestTimeout: number = 30000; // 30 seconds timeout
+  private wallets: Map<string, Promise<WalletData>> = new Map();
+  private syncs: Map<string, Promise<unknown>> = new Map();
+
+  constructor(heliusApiKey: string) {
+    this.heliusApiKey = heliusApiKey;
+  }
+
+  /**
+   * Bring the stored history of a wallet up to date. Syncs of the same wallet run one at a time.
+   */
+  sync(walletAddress: string, options: SyncOptions = {}): Promise<SyncResult> {
+    return this.exclusive(walletAddress, () => this.runSync(walletAddress, options));
+  }
+
+  /**
+   * Store transactions pushed by a Helius webhook and return the ones not stored yet. They are
+   * kept like synced transactions, but the next sync still starts from the newest transaction it
+   * fetched itself, so anything the webhook missed is filled in.
+   */
+  ingest(walletAddress: string, transactions: any[]): Promise<any[]> {
+    return this.exclusive(walletAddress, async () => {
+      const data = await this.load(walletAddress);
+      const added = new Map<string, any>();
+      for (const tx of transactions) {
+        if (tx?.signature && !data.transactions.has(tx.signature)) added.set(tx.signature, tx);
+      }
+      if (added.size === 0) return [];
+
+      for (const [signature, tx] of added) {
+        data.transactions.set(signature, tx);
+      }
+      data.state.pushed = [...(data.state.pushed ?? []), ...added.keys()];
+      await appendJsonLines(`${this.directory(walletAddress)}/transactions.jsonl`, [...added.values()]);
+      await writeJsonFile(`${this.directory(walletAddress)}/sync.json`, data.state);
+      return [...added.values()];
+    });
+  }
+
+  /**
+   * True when the wallet has been synced or fed by the webhook before
+   */
+  async hasHistory(walletAddress: string): Promise<boolean> {
+    if (!isSolanaAddress(walletAddress)) return false;
+    if (this.wallets.has(walletAddress)) return (await this.load(walletAddress)).transactions.size > 0;
+    return (await readJsonFile<SyncState | null>(`${this.directory(walletAddress)}/sync.json`, null)) !== null;
+  }
+
+  async getStatus(walletAddress: string): Promise<SyncStatus> {
+    return this.status(await this.load(walletAddress));
+  }
+
+  /**
+   * Stored transactions inside an optional time window, newest first
+   */
+  async getTransactions(walletAddress: string, range: { from?: number; to?: number } = {}): Promise<any[]> {
+    const data = await this.load(walletAddress);
+    return [...data.transactions.values()]
+      .filter(tx => (range.from === undefined || tx.timestamp >= range.from) && (range.to === undefined || tx.timestamp <= range.to))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * True when the stored history reaches back to `from` (or to the first transaction) without gaps
+   */
+  async covers(walletAddress: string, from?: number): Promise<boolean> {
+    const status = this.status(await this.load(walletAddress), true);
+    if (status.gap) return false;
+    if (status.historyComplete) return true;
+    return from !== undefined && status.oldestTimestamp !== undefined && status.oldestTimestamp <= from;
+  }
+
+  /**
+   * Trades extracted from stored transactions, keyed by signature. Trades stored in another
+   * format version are discarded so they get extracted again.
+   */
+  async getTrades(walletAddress: string, format: number): Promise<Map<string, TradeInfo | null>> {
+    const data = await this.load(walletAddress);
+    return data.state.tradeFormat === format ? data.trades : new Map();
+  }
+
+  async addTrades(walletAddress: string, format: number, trades: StoredTrade[]): Promise<void> {
+    const data = await this.load(walletAddress);
+    const directory = this.directory(walletAddress);
+
+    if (data.state.tradeFormat !== format) {
+      data.trades = new Map(trades.map(entry => [entry.signature, entry.trade]));
+      data.state.tradeFormat = format;
+      await writeJsonLines(`${directory}/trades.jsonl`, trades);
+      await writeJsonFile(`${directory}/sync.json`, data.state);
+      return;
+    }
+
+    const added = trades.filter(entry => !data.trades.has(entry.signature));
+    for (const entry of added) {
+      data.trades.set(entry.signature, entry.trade);
+    }
+    await appendJsonLines(`${directory}/trades.jsonl`, added);
+  }
+
+  private exclusive<T>(walletAddress: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.syncs.get(walletAddress) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.syncs.set(walletAddress, run);
+    return run.finally(() => {
+      if (this.syncs.get(walletAddress) === run) {
+        this.syncs.delete(walletAddress);
+      }
+    });
+  }
+
+  private directory(walletAddress: string): string {
+    // The address becomes part of a file path, so it has to be plain base58
+    assertSolanaAddress(walletAddress);
+    return `wallets/${walletAddress}`;
+  }
+
+  private load(walletAddress: string): Promise<WalletData> {
+    let loading = this.wallets.get(walletAddress);
+    if (!loading) {
+      loading = this.read(walletAddress);
+      this.wallets.set(walletAddress, loading);
+      loading.catch(() => this.wallets.delete(walletAddress));
+    }
+    return loading;
+  }
+
+  private async read(walletAddress: string): Promise<WalletData> {
+    const directory = this.directory(walletAddress);
+    const [state, transactions, trades] = await Promise.all([
+      readJsonFile<SyncState>(`${directory}/sync.json`, { historyComplete: false }),
+      readJsonLines<any>(`${directory}/transactions.jsonl`),
+      readJsonLines<StoredTrade>(`${directory}/trades.jsonl`)
+    ]);
+
+    if (transactions.length > 0) {
+      console.log(`Transaction store loaded ${transactions.length} transactions for ${walletAddress}`);
+    }
+
+    return {
+      address: walletAddress,
+      state,
+      transactions: new Map(transactions.map(tx => [tx.signature, tx])),
+      trades: new Map(trades.map(entry => [entry.signature, entry.trade]))
+    };
+  }
+
+  /**
+   * Counts and bounds of the stored history. With `syncedOnly`, transactions pushed by the webhook
+   * that no sync has fetched are left out, as the sync cursors must not skip past them.
+   */
+  private status(data: WalletData, syncedOnly = false): SyncStatus {
+    const pushed = new Set(syncedOnly ? data.state.pushed : []);
+    let newest: any;
+    let oldest: any;
+    for (const tx of data.transactions.values()) {
+      if (pushed.has(tx.signature)) continue;
+      if (!newest || tx.timestamp > newest.timestamp) newest = tx;
+      if (!oldest || tx.timestamp < oldest.timestamp) oldest = tx;
+    }
+
+    return {
+      walletAddress: data.address,
+      transactionCount: data.transactions.size,
+      tradeCount: [...data.trades.values()].filter(trade => trade !== null).length,
+      newestSignature: newest?.signature,
+      newestTimestamp: newest?.timestamp,
+      oldestSignature: oldest?.signature,
+      oldestTimestamp: oldest?.timestamp,
+      historyComplete: data.state.historyComplete,
+      ...(data.state.gap ? { gap: data.state.gap } : {}),
+      ...(data.state.lastSyncedAt ? { lastSyncedAt: data.state.lastSyncedAt } : {})
+    };
+  }
+
+  private async runSync(walletAddress: string, options: SyncOptions): Promise<SyncResult> {
+    const data = await this.load(walletAddress);
+    const budget = options.maxTransactions ?? DEFAULT_MAX_TRANSACTIONS;
+    const counter = { fetched: 0, pages: 0, added: 0 };
+    let budgetExhausted = false;
+
+    // 1. Fill the gap an earlier head sync left behind
+    const gap = data.state.gap;
+    if (gap) {
+      const walk = await this.walk(walletAddress, { before: gap.before, until: gap.until }, budget, counter, options);
+      await this.append(data, walk.transactions, counter);
+      data.state.gap = walk.reachedEnd ? undefined : { before: walk.transactions[walk.transactions.length - 1]?.signature ?? gap.before, until: gap.until };
+      budgetExhausted ||= walk.budgetExhausted;
+    }
+
+    // 2. Fetch everything newer than the newest synced transaction
+    const previousNewest = this.status(data, true).newestSignature;
+    if (!data.state.gap && previousNewest && counter.fetched < budget) {
+      const walk = await this.walk(walletAddress, { until: previousNewest }, budget, counter, options);
+      await this.append(data, walk.transactions, counter);
+      if (!walk.reachedEnd && walk.transactions.length > 0) {
+        data.state.gap = { before: walk.transactions[walk.transactions.length - 1].signature, until: previousNewest };
+      }
+      budgetExhausted ||= walk.budgetExhausted;
+    }
+
+    // 3. Backfill older history until `from`, the first transaction or the budget is reached
+    const status = this.status(data, true);
+    const needsBackfill = options.from !== undefined
+      ? status.oldestTimestamp === undefined || status.oldestTimestamp > options.from
+      : status.transactionCount < budget;
+    if (!data.state.historyComplete && needsBackfill && counter.fetched < budget) {
+      const limit = options.from !== undefined ? budget : Math.min(budget, counter.fetched + budget - status.transactionCount);
+      const walk = await this.walk(walletAddress, { before: status.oldestSignature, stopAt: options.from }, limit, counter, options);
+      await this.append(data, walk.transactions, counter);
+      if (walk.reachedEnd) {
+        data.state.historyComplete = true;
+      }
+      budgetExhausted ||= walk.budgetExhausted && counter.fetched >= budget;
+    }
+
+    data.state.lastSyncedAt = new Date().toISOString();
+    await writeJsonFile(`${this.directory(walletAddress)}/sync.json`, data.state);
+
+    console.log(`✅ Synced ${walletAddress}: ${counter.added} new transactions (${data.transactions.size} stored)`);
+    return {
+      ...this.status(data),
+      transactionsFetched: counter.fetched,
+      newTransactions: counter.added,
+      budgetExhausted
+    };
+  }
+
+  /**
+   * Page through the wallet's history newest → oldest between the `before` and `until`
+   * signatures, stopping once a page goes past `stopAt` or `limit` transactions were fetched
+   */
+  private async walk(
+    walletAddress: string,
+    cursor: { before?: string; until?: string; stopAt?: number },
+    limit: number,
+    counter: { fetched: number; pages: number },
+    options: SyncOptions
+  ): Promise<WalkResult> {
+    const url = `${apiBaseUrl('helius')}/v0/addresses/${walletAddress}/transactions/?api-key=${this.heliusApiKey}`;
+    const transactions: any[] = [];
+    let before = cursor.before;
+
+    while (counter.fetched < limit) {
+      const response = await httpClient.get(url, {
+        timeout: this.requestTimeout,
+        signal: options.signal,
+        params: {
+          limit: Math.min(PAGE_SIZE, limit - counter.fetched),
+          ...(before ? { before } : {}),
+          ...(cursor.until ? { until: cursor.until } : {})
+        }
+      });
+
+      const page: any[] = response.data || [];
+      counter.pages++;
+      counter.fetched += page.length;
+      console.log(`Received page ${counter.pages} with ${page.length} transactions (${counter.fetched} fetched)`);
+
+      if (page.length === 0) {
+        return { transactions, reachedEnd: true, budgetExhausted: false };
+      }
+
+      transactions.push(...page);
+      const oldest = page[page.length - 1];
+      await options.onProgress?.({
+        transactionsFetched: counter.fetched,
+        pagesFetched: counter.pages,
+        maxTransactions: limit,
+        oldestTimestamp: oldest?.timestamp
+      });
+
+      if (cursor.stopAt !== undefined && oldest.timestamp < cursor.stopAt) {
+        return { transactions, reachedEnd: false, budgetExhausted: false };
+      }
+      before = oldest.signature;
+    }
+
+    return { transactions, reachedEnd: false, budgetExhausted: true };
+  }
+
+  private async append(data: WalletData, transactions: any[], counter: { added: number }) {
+    if (data.state.pushed) {
+      const fetched = new Set(transactions.map(tx => tx?.signature));
+      data.state.pushed = data.state.pushed.filter(signature => !fetched.has(signature));
+      if (data.state.pushed.length === 0) delete data.state.pushed;
+    }
+    const added = transactions.filter(tx => tx?.signature && !data.transactions.has(tx.signature));
+    for (const tx of added) {
+      data.transactions.set(tx.signature, tx);
+    }
+    counter.added += added.length;
+    await appendJsonLines(`${this.directory(data.address)}/transactions.jsonl`, added);
+  }
+}
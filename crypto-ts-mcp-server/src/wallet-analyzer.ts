@@ -1,14 +1,57 @@
-import axios from 'axios';
+import { PositionLedger, SOL_MINT } from './position-ledger.js';
+import type { AccountingMethod, Disposal, TokenPosition } from './position-ledger.js';
+import type { FetchProgress } from './transaction-store.js';
+import { TokenRegistry } from './token-registry.js';
+import { PriceHistory, isUsdStablecoin } from './price-history.js';
+import { TransactionStore } from './transaction-store.js';
+import type { HoldingsService } from './wallet-holdings.js';
+import { SwapParser, swapMints } from './swap-parser.js';
+import type { SwapHop } from './swap-parser.js';
+import { classifyActivity, countActivities, INFLOW_CATEGORIES, OUTFLOW_CATEGORIES } from './activity-classifier.js';
+import type { ActivityCategory, WalletActivity } from './activity-classifier.js';
+import { formatZonedDateTime } from './time-zone.js';
+import { toAppError } from './errors.js';
+import { computeTradingMetrics, formatTradingMetrics } from './trading-metrics.js';
+import type { TradingMetrics } from './trading-metrics.js';
+import { emptyCostBreakdown, formatTradingCosts } from './trade-costs.js';
+import type { CostBreakdown, TradeCosts } from './trade-costs.js';
 
 // Types for wallet analysis
 export interface WalletStats {
   totalTrades: number;
+  closedTrades: number; // Sells that realized P/L against known lots
   profitableTrades: number;
-  totalProfitLoss: number;
-  averageTradeSize: number;
+  totalProfitLoss: number; // Realized + unrealized, in SOL
+  realizedProfitLoss: number;
+  unrealizedProfitLoss: number;
+  accountingMethod: AccountingMethod;
+  averageTradeSize: number; // Average SOL leg of trades priced in SOL
   largestTrade: number;
   largestSOLTrade: number;
-  successRate: number;
+  successRate: number; // Profitable share of closed trades
+  positions: TokenPosition[];
+  realizedProfitLossUsd: number; // USD ledger, SOL counted as an asset at its historical price
+  unrealizedProfitLossUsd: number;
+  totalProfitLossUsd: number;
+  positionsUsd: TokenPosition[];
+  totalFees: number; // Network fees paid, in SOL
+  totalFeesUsd: number;
+  totalCosts: number; // Fees, Jito tips and rent for opened token accounts, in SOL
+  totalCostsUsd: number;
+  averageCost: number; // SOL per trade
+  averageCostUsd: number;
+  costBreakdown: CostBreakdown; // SOL per kind of cost
+  rentRefunded: number; // SOL returned by closed token accounts, in swaps and account clean-ups
+  rentRefundedUsd: number;
+  totalProfitLossAfterCosts: number; // Total P/L less costs plus rent refunds, in SOL
+  totalProfitLossAfterCostsUsd: number;
+  unpricedTrades: number; // Trades without a USD valuation, left out of USD P/L
+  unpricedTransfers: number; // Tokens received without a historical price; no lot is opened, so their sales stay unmatched
+  activityCounts: Record<ActivityCategory, number>; // Classified transactions per category
+  metrics: TradingMetrics; // Holding times, streaks, drawdown, leaderboards and activity by time (UTC)
+  portfolioValueHistory: PortfolioValuePoint[];
+  transactionsInRange: number; // Transactions of the analyzed date range, not every transaction fetched or stored
+  historyTruncated: boolean;
   tradeHistory: TradeInfo[];
 }
 
@@ -19,256 +62,667 @@ export interface TradeInfo {
   tokenOut?: string;
   amountIn?: number;
   amountOut?: number;
-  profitLoss?: number;
+  profitLoss?: number; // Realized P/L in SOL
+  profitLossUsd?: number; // Realized P/L in USD
+  valueInUsd?: number; // USD value of the sold leg at the trade timestamp
+  valueOutUsd?: number; // USD value of the bought leg at the trade timestamp
+  fee?: number; // Network fee paid by the wallet, in SOL
+  feeUsd?: number;
+  costs?: TradeCosts; // Fees, tips and rent of the transaction, in SOL
+  costsUsd?: number; // Total costs at the SOL price of the trade timestamp
+  rentRefundedUsd?: number;
   signature: string;
   source?: string;
+  route?: SwapHop[]; // Hops of a routed swap in execution order (a single hop for direct swaps)
+  otherLegs?: { mint: string; amount: number }[]; // Further mints the swap moved, negative when sent
+  parsedFrom?: 'swap-event' | 'balance-deltas';
 }
 
+// Value of the positions tracked by the USD ledger at the end of a (UTC) day
+export interface PortfolioValuePoint {
+  date: string; // YYYY-MM-DD
+  valueUsd: number; // Held amounts at the last traded USD price
+  costBasisUsd: number;
+}
+
+// End-of-day report sections, with mints resolved to symbols
+export interface EndOfDayReport {
+  walletAddress: string;
+  generatedAt: string; // ISO timestamp
+  summary: Omit<WalletStats, 'positions' | 'positionsUsd' | 'portfolioValueHistory' | 'tradeHistory'>;
+  tokens: ReportTokenProfitLoss[];
+  portfolioValue: PortfolioValuePoint[]; // Last 7 trading days
+  recentTrades: ReportTrade[];
+}
+
+export interface ReportTokenProfitLoss {
+  mint: string;
+  symbol: string;
+  amountHeld: number;
+  realizedProfitLoss: number; // SOL
+  unrealizedProfitLoss: number;
+  realizedProfitLossUsd?: number;
+  unrealizedProfitLossUsd?: number;
+}
+
+export interface ReportTrade extends TradeInfo {
+  tokenInSymbol: string;
+  tokenOutSymbol: string;
+}
+
+// A wallet's synced transactions and the trades extracted from them
+export interface WalletHistory {
+  walletAddress: string;
+  transactions: any[]; // Newest first
+  trades: TradeInfo[];
+  activities: WalletActivity[]; // One per transaction, newest first
+  truncated: boolean; // The stored history does not reach back to the start of the window
+}
+
+// Classified transactions of a wallet, optionally filtered by category
+export interface WalletActivityReport {
+  walletAddress: string;
+  counts: Record<ActivityCategory, number>; // Every transaction in the window, before filtering
+  activities: WalletActivity[]; // Newest first
+  historyTruncated: boolean;
+}
+
+// Tokens that entered or left the wallet outside a trade, valued for the lot ledgers
+interface Flow {
+  timestamp: number;
+  signature: string;
+  mint: string;
+  amount: number; // Negative when the tokens left
+  costUsd: number; // Value when received, 0 when it could not be priced
+  costSol: number;
+}
+
+// Options for analyzing a wallet's transaction history
+export interface AnalyzeOptions {
+  from?: number; // Unix timestamp (seconds), inclusive lower bound
+  to?: number; // Unix timestamp (seconds), inclusive upper bound
+  maxTransactions?: number; // Upper bound on transactions fetched from Helius while syncing
+  accountingMethod?: AccountingMethod; // Lot matching for realized P/L (default FIFO)
+  onProgress?: (progress: FetchProgress) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+// Bump when swap parsing changes so stored trades are extracted again
+const TRADE_FORMAT = 3;
+
 export class WalletAnalyzer {
-  private heliusApiKey: string;
-  private requestTimeout: number = 30000; // 30 seconds timeout
+  private tokenRegistry: TokenRegistry;
+  private priceHistory: PriceHistory;
+  private transactionStore: TransactionStore;
+  private holdingsService?: HoldingsService;
+  private swapParser: SwapParser;
+
+  constructor(
+    heliusApiKey: string,
+    tokenRegistry?: TokenRegistry,
+    priceHistory?: PriceHistory,
+    transactionStore?: TransactionStore,
+    holdingsService?: HoldingsService
+  ) {
+    this.tokenRegistry = tokenRegistry ?? new TokenRegistry(heliusApiKey);
+    this.priceHistory = priceHistory ?? new PriceHistory();
+    this.transactionStore = transactionStore ?? new TransactionStore(heliusApiKey);
+    this.holdingsService = holdingsService;
+    this.swapParser = new SwapParser(this.tokenRegistry);
+  }
 
-  constructor(heliusApiKey: string) {
-    this.heliusApiKey = heliusApiKey;
+  async analyzeWallet(walletAddress: string, options: AnalyzeOptions = {}): Promise<WalletStats> {
+    return (await this.analyzeWithDisposals(walletAddress, options)).stats;
   }
 
-  async analyzeWallet(walletAddress: string): Promise<WalletStats> {
+  /**
+   * Analyze the wallet and also return the USD ledger's disposals (the lots every sale consumed),
+   * which tax exports need for cost basis and holding periods
+   */
+  async analyzeWithDisposals(walletAddress: string, options: AnalyzeOptions = {}): Promise<{ stats: WalletStats; disposals: Disposal[] }> {
     try {
-      console.log(`Fetching transactions for ${walletAddress}`);
-      
-      // Using the correct endpoint format from the Helius API docs
-      const url = `https://api.helius.xyz/v0/addresses/${walletAddress}/transactions/?api-key=${this.heliusApiKey}`;
-      
-      const response = await axios.get(url, { 
-        timeout: this.requestTimeout,
-        params: {
-          limit: 50 // Get more transactions to find swaps
-        }
+      const history = await this.loadHistory(walletAddress, options);
+      return await this.analyzeTrades(history.trades, {
+        accountingMethod: options.accountingMethod,
+        transactionsInRange: history.transactions.length,
+        historyTruncated: history.truncated,
+        activities: history.activities,
+        currentPrices: await this.currentPrices([walletAddress])
       });
-      
-      console.log(`Received ${response.data?.length || 0} transactions`);
-      const transactions = response.data || [];
-
-      // Initialize stats
-      const stats: WalletStats = {
-        totalTrades: 0,
-        profitableTrades: 0,
-        totalProfitLoss: 0,
-        averageTradeSize: 0,
-        largestTrade: 0,
-        largestSOLTrade: 0,
-        successRate: 0,
-        tradeHistory: []
-      };
-
-      // Process each transaction
-      for (const tx of transactions) {
-        // Only process SWAP transactions
-        if (tx.type === 'SWAP') {
-          console.log(`Processing SWAP transaction: ${tx.signature?.substring(0, 10)}...`);
-          
-          const tradeInfo = this.extractSwapInfo(tx, walletAddress);
-          if (tradeInfo) {
-            stats.tradeHistory.push(tradeInfo);
-            stats.totalTrades++;
-            
-            if (tradeInfo.profitLoss && tradeInfo.profitLoss > 0) {
-              stats.profitableTrades++;
-              stats.totalProfitLoss += tradeInfo.profitLoss;
-            }
-
-            // For largest trade, only consider SOL or stablecoin trades for accuracy
-            if (tradeInfo.tokenIn === 'So11111111111111111111111111111111111111112' && tradeInfo.amountIn) {
-              // This is a SOL trade
-              if (tradeInfo.amountIn > stats.largestSOLTrade) {
-                stats.largestSOLTrade = tradeInfo.amountIn;
-              }
-            }
-            
-            // Track highest amount for any token (just for reference)
-            if (tradeInfo.amountIn && tradeInfo.amountIn > stats.largestTrade) {
-              stats.largestTrade = tradeInfo.amountIn;
-            }
-          }
+    } catch (error) {
+      console.error('Error analyzing wallet:', error);
+      throw toAppError(error);
+    }
+  }
+
+  /**
+   * Sync the wallet and collect its transactions and trades inside the requested window
+   */
+  async loadHistory(walletAddress: string, options: AnalyzeOptions = {}): Promise<WalletHistory> {
+    console.log(`Syncing transactions for ${walletAddress}`);
+
+    // Only transactions newer than the last sync (or older than the stored history) are fetched
+    await this.transactionStore.sync(walletAddress, {
+      from: options.from,
+      maxTransactions: options.maxTransactions,
+      onProgress: options.onProgress,
+      signal: options.signal
+    });
+    const transactions = await this.transactionStore.getTransactions(walletAddress, { from: options.from, to: options.to });
+    const truncated = !(await this.transactionStore.covers(walletAddress, options.from));
+    console.log(`Collected ${transactions.length} transactions in range`);
+
+    const trades = await this.extractTrades(walletAddress, transactions);
+    const tradesBySignature = new Map(trades.map(trade => [trade.signature, trade]));
+    const activities = transactions.map(tx =>
+      classifyActivity(tx, walletAddress, this.swapParser.netDeltas(tx, walletAddress), tradesBySignature.get(tx.signature)));
+
+    return { walletAddress, transactions, trades, activities, truncated };
+  }
+
+  /**
+   * Classified transactions of the wallet inside the window, newest first
+   */
+  async getActivity(
+    walletAddress: string,
+    options: AnalyzeOptions & { types?: ActivityCategory[]; limit?: number } = {}
+  ): Promise<WalletActivityReport> {
+    const history = await this.loadHistory(walletAddress, options);
+    const activities = options.types && options.types.length > 0
+      ? history.activities.filter(activity => options.types!.includes(activity.category))
+      : history.activities;
+
+    await this.tokenRegistry.resolveMany(activities.flatMap(activity => activity.movements.map(movement => movement.mint)));
+    return {
+      walletAddress,
+      counts: countActivities(history.activities),
+      activities: options.limit !== undefined ? activities.slice(0, options.limit) : activities,
+      historyTruncated: history.truncated
+    };
+  }
+
+  /**
+   * Value a list of trades in USD and replay them through the SOL and USD lot ledgers.
+   * The trades may come from several wallets, as long as each one is listed once.
+   * Transfers in, airdrops and rewards among `activities` open lots at their value when
+   * received; transfers out take their lots along without realizing P/L.
+   */
+  async analyzeTrades(
+    trades: TradeInfo[],
+    context: {
+      accountingMethod?: AccountingMethod;
+      transactionsInRange: number;
+      historyTruncated: boolean;
+      activities?: WalletActivity[]; // Classified transactions of the same history, for activity counts and flows
+      currentPrices?: Record<string, number>; // USD per token, marks open positions instead of the last trade price
+    }
+  ): Promise<{ stats: WalletStats; disposals: Disposal[] }> {
+    // Initialize stats
+    const stats: WalletStats = {
+      totalTrades: 0,
+      closedTrades: 0,
+      profitableTrades: 0,
+      totalProfitLoss: 0,
+      realizedProfitLoss: 0,
+      unrealizedProfitLoss: 0,
+      accountingMethod: context.accountingMethod ?? 'fifo',
+      averageTradeSize: 0,
+      largestTrade: 0,
+      largestSOLTrade: 0,
+      successRate: 0,
+      positions: [],
+      realizedProfitLossUsd: 0,
+      unrealizedProfitLossUsd: 0,
+      totalProfitLossUsd: 0,
+      positionsUsd: [],
+      totalFees: 0,
+      totalFeesUsd: 0,
+      totalCosts: 0,
+      totalCostsUsd: 0,
+      averageCost: 0,
+      averageCostUsd: 0,
+      costBreakdown: emptyCostBreakdown(),
+      rentRefunded: 0,
+      rentRefundedUsd: 0,
+      totalProfitLossAfterCosts: 0,
+      totalProfitLossAfterCostsUsd: 0,
+      unpricedTrades: 0,
+      unpricedTransfers: 0,
+      activityCounts: countActivities(context.activities ?? []),
+      metrics: computeTradingMetrics([], []),
+      portfolioValueHistory: [],
+      transactionsInRange: context.transactionsInRange,
+      historyTruncated: context.historyTruncated,
+      tradeHistory: trades
+    };
+    stats.totalTrades = trades.length;
+
+    console.log(`Analysis complete: Found ${stats.totalTrades} swap trades`);
+
+    await this.valueTrades(stats.tradeHistory);
+    const { flows, unpriced } = await this.valueFlows(context.activities ?? []);
+    stats.unpricedTransfers = unpriced;
+
+    // Replay trades oldest first through the lot ledgers to get realized P/L per sell
+    const ledger = new PositionLedger(stats.accountingMethod);
+    const usdLedger = new PositionLedger(stats.accountingMethod, 'USD');
+    const chronological = [...stats.tradeHistory].sort((a, b) => a.timestamp - b.timestamp);
+    let solVolume = 0;
+    let solPricedTrades = 0;
+    let currentDay: number | undefined;
+    let nextFlow = 0;
+
+    // Snapshot the tracked portfolio value whenever a UTC day is complete
+    const advanceTo = (timestamp: number) => {
+      const day = Math.floor(timestamp / 86400);
+      if (currentDay !== undefined && day !== currentDay) {
+        stats.portfolioValueHistory.push(this.portfolioValuePoint(usdLedger, currentDay));
+      }
+      currentDay = day;
+    };
+    // Transfers are applied before trades of the same second, so tokens received can be sold
+    const applyFlowsUntil = (timestamp: number) => {
+      for (; nextFlow < flows.length && flows[nextFlow].timestamp <= timestamp; nextFlow++) {
+        const flow = flows[nextFlow];
+        advanceTo(flow.timestamp);
+        if (flow.amount > 0) {
+          ledger.receive(flow.mint, flow.amount, flow.costSol, flow);
+          usdLedger.receive(flow.mint, flow.amount, flow.costUsd, flow);
+        } else {
+          ledger.send(flow.mint, -flow.amount);
+          usdLedger.send(flow.mint, -flow.amount);
         }
       }
+    };
+
+    for (const tradeInfo of chronological) {
+      applyFlowsUntil(tradeInfo.timestamp);
+      advanceTo(tradeInfo.timestamp);
+
+      tradeInfo.profitLoss = ledger.applyTrade(tradeInfo);
+      tradeInfo.profitLossUsd = usdLedger.applyTrade(tradeInfo);
 
-      console.log(`Analysis complete: Found ${stats.totalTrades} swap trades`);
-      
-      // Calculate final stats
-      if (stats.totalTrades > 0) {
-        stats.successRate = (stats.profitableTrades / stats.totalTrades) * 100;
-        stats.averageTradeSize = stats.totalProfitLoss / stats.totalTrades;
+      if (tradeInfo.valueInUsd === undefined && tradeInfo.valueOutUsd === undefined) {
+        stats.unpricedTrades++;
+      }
+      stats.totalFees += tradeInfo.fee ?? 0;
+      stats.totalFeesUsd += tradeInfo.feeUsd ?? 0;
+      if (tradeInfo.costs) {
+        for (const kind of Object.keys(stats.costBreakdown) as (keyof CostBreakdown)[]) {
+          stats.costBreakdown[kind] += tradeInfo.costs[kind];
+        }
+        stats.totalCosts += tradeInfo.costs.total;
+        stats.totalCostsUsd += tradeInfo.costsUsd ?? 0;
+        stats.rentRefunded += tradeInfo.costs.rentRefunded;
+        stats.rentRefundedUsd += tradeInfo.rentRefundedUsd ?? 0;
       }
 
-      return stats;
-    } catch (error) {
-      console.error('Error analyzing wallet:', error);
-      throw new Error('Failed to analyze wallet transactions: ' + (error instanceof Error ? error.message : String(error)));
+      if (tradeInfo.profitLoss !== undefined) {
+        stats.closedTrades++;
+        if (tradeInfo.profitLoss > 0) {
+          stats.profitableTrades++;
+        }
+      }
+
+      // Trade size is measured on the SOL leg of the swap
+      const solSize = tradeInfo.tokenIn === SOL_MINT ? tradeInfo.amountIn
+        : tradeInfo.tokenOut === SOL_MINT ? tradeInfo.amountOut
+        : undefined;
+      if (solSize) {
+        solVolume += solSize;
+        solPricedTrades++;
+        if (solSize > stats.largestSOLTrade) {
+          stats.largestSOLTrade = solSize;
+        }
+      }
+
+      // Track highest amount for any token (just for reference)
+      if (tradeInfo.amountIn && tradeInfo.amountIn > stats.largestTrade) {
+        stats.largestTrade = tradeInfo.amountIn;
+      }
     }
+
+    applyFlowsUntil(Infinity);
+    if (currentDay !== undefined) {
+      stats.portfolioValueHistory.push(this.portfolioValuePoint(usdLedger, currentDay));
+    }
+
+    // Open lots are marked at current prices where known; the SOL ledger needs them in SOL
+    const currentSolPrice = context.currentPrices?.[SOL_MINT]
+      ?? await this.priceHistory.getMintPriceAt(SOL_MINT, Math.floor(Date.now() / 1000));
+    const usdMarks: Record<string, number> = { ...(currentSolPrice ? { [SOL_MINT]: currentSolPrice } : {}), ...context.currentPrices };
+    const solMarks: Record<string, number> = {};
+    if (currentSolPrice) {
+      for (const [mint, price] of Object.entries(usdMarks)) {
+        if (mint !== SOL_MINT) solMarks[mint] = price / currentSolPrice;
+      }
+    }
+
+    // Calculate final stats
+    stats.positions = ledger.getPositions(solMarks);
+    stats.realizedProfitLoss = stats.positions.reduce((sum, position) => sum + position.realizedProfitLoss, 0);
+    stats.unrealizedProfitLoss = stats.positions.reduce((sum, position) => sum + position.unrealizedProfitLoss, 0);
+    stats.totalProfitLoss = stats.realizedProfitLoss + stats.unrealizedProfitLoss;
+
+    stats.positionsUsd = usdLedger.getPositions(usdMarks);
+    stats.realizedProfitLossUsd = stats.positionsUsd.reduce((sum, position) => sum + position.realizedProfitLoss, 0);
+    stats.unrealizedProfitLossUsd = stats.positionsUsd.reduce((sum, position) => sum + position.unrealizedProfitLoss, 0);
+    stats.totalProfitLossUsd = stats.realizedProfitLossUsd + stats.unrealizedProfitLossUsd;
+
+    // Accounts closed outside a swap, e.g. by a clean-up tool, refund rent as well
+    for (const refund of await this.valueRentRefunds(context.activities ?? [])) {
+      stats.rentRefunded += refund.amount;
+      stats.rentRefundedUsd += refund.amountUsd;
+    }
+    stats.totalProfitLossAfterCosts = stats.totalProfitLoss - stats.totalCosts + stats.rentRefunded;
+    stats.totalProfitLossAfterCostsUsd = stats.totalProfitLossUsd - stats.totalCostsUsd + stats.rentRefundedUsd;
+    if (stats.totalTrades > 0) {
+      stats.averageCost = stats.totalCosts / stats.totalTrades;
+      stats.averageCostUsd = stats.totalCostsUsd / stats.totalTrades;
+    }
+
+    if (stats.closedTrades > 0) {
+      stats.successRate = (stats.profitableTrades / stats.closedTrades) * 100;
+    }
+    if (solPricedTrades > 0) {
+      stats.averageTradeSize = solVolume / solPricedTrades;
+    }
+    stats.metrics = computeTradingMetrics(stats.tradeHistory, usdLedger.getDisposals(), { symbol: mint => this.tokenRegistry.symbol(mint) });
+
+    return { stats, disposals: usdLedger.getDisposals() };
   }
 
-  private extractSwapInfo(tx: any, walletAddress: string): TradeInfo | null {
-    try {
-      // Basic trade info
-      const tradeInfo: TradeInfo = {
-        timestamp: tx.timestamp,
-        type: 'SWAP',
-        signature: tx.signature,
-        source: tx.source || 'Unknown'
-      };
-
-      // Extract token transfer information
-      if (tx.tokenTransfers && tx.tokenTransfers.length > 0) {
-        // Find token transfers where the wallet is sending tokens (selling)
-        const tokensSent = tx.tokenTransfers.filter((transfer: any) => 
-          transfer.fromUserAccount === walletAddress
-        );
-        
-        // Find token transfers where the wallet is receiving tokens (buying)
-        const tokensReceived = tx.tokenTransfers.filter((transfer: any) => 
-          transfer.toUserAccount === walletAddress
-        );
-        
-        // Get the tokens sent by the wallet (what was sold)
-        if (tokensSent.length > 0) {
-          const soldTransfer = tokensSent[0];
-          tradeInfo.tokenIn = soldTransfer.mint;
-          
-          // Handle amount correctly with proper decimal places
-          let amountIn = 0;
-          
-          if (soldTransfer.rawTokenAmount) {
-            // Use rawTokenAmount when available
-            const decimals = soldTransfer.rawTokenAmount.decimals || 6;
-            const rawAmount = soldTransfer.rawTokenAmount.tokenAmount || "0";
-            amountIn = parseFloat(rawAmount) / Math.pow(10, decimals);
-          } else if (typeof soldTransfer.tokenAmount === 'number') {
-            // Use tokenAmount directly if it's a number
-            amountIn = soldTransfer.tokenAmount;
-          } else if (typeof soldTransfer.tokenAmount === 'string') {
-            // Parse string as a float if needed
-            amountIn = parseFloat(soldTransfer.tokenAmount);
-          }
-          
-          tradeInfo.amountIn = amountIn;          
-          console.log(`Token sold: ${soldTransfer.mint}, Amount: ${tradeInfo.amountIn}`);
+  /**
+   * Current USD prices of the tokens the wallets hold, used to mark open positions. Empty
+   * without a holdings service or when the balances cannot be fetched.
+   */
+  async currentPrices(walletAddresses: string[]): Promise<Record<string, number>> {
+    if (!this.holdingsService) return {};
+
+    const prices: Record<string, number> = {};
+    for (const walletAddress of walletAddresses) {
+      try {
+        const { holdings } = await this.holdingsService.getHoldings(walletAddress, { vsCurrency: 'usd', includeSpam: true });
+        for (const holding of holdings) {
+          if (holding.price !== undefined) prices[holding.mint] = holding.price;
         }
-        
-        // Get the tokens received by the wallet (what was bought)
-        if (tokensReceived.length > 0) {
-          const boughtTransfer = tokensReceived[0];
-          tradeInfo.tokenOut = boughtTransfer.mint;
-          
-          // Handle amount correctly with proper decimal places
-          const decimals = boughtTransfer.rawTokenAmount?.decimals || 6; // Default to 6 if not provided
-          const rawAmount = boughtTransfer.rawTokenAmount?.tokenAmount || boughtTransfer.tokenAmount.toString().replace('.', '');
-          
-          // Convert with proper decimals
-          tradeInfo.amountOut = parseFloat(rawAmount) / Math.pow(10, decimals);
-          
-          // Sanity check - if amount is unreasonably large, it might be a decimal error
-          if (tradeInfo.amountOut > 1000000 && boughtTransfer.mint !== 'GiwsvnWCAGs37hQAcuCC3GB4PxuUtMe7r4jc2E9Gpump') {
-            // This is likely a very large number with wrong decimals - cap it
-            tradeInfo.amountOut = tradeInfo.amountOut / 1000000;
+      } catch (error: any) {
+        console.error(`Could not fetch holdings of ${walletAddress}, marking positions at last trade prices:`, error.message || error);
+      }
+    }
+    return prices;
+  }
+
+  /**
+   * Sync the wallet and return its trades since a unix timestamp (seconds), newest first
+   */
+  async getTradesSince(walletAddress: string, since: number, signal?: AbortSignal): Promise<TradeInfo[]> {
+    await this.transactionStore.sync(walletAddress, { from: since, signal });
+    const transactions = await this.transactionStore.getTransactions(walletAddress, { from: since });
+    return this.extractTrades(walletAddress, transactions);
+  }
+
+  /**
+   * Store transactions pushed by the Helius webhook. Returns how many were new and the trades
+   * among them, newest first; they go through the same swap extraction as synced transactions.
+   */
+  async ingestTransactions(walletAddress: string, transactions: any[]): Promise<{ added: number; trades: TradeInfo[] }> {
+    const added = await this.transactionStore.ingest(walletAddress, transactions);
+    if (added.length === 0) return { added: 0, trades: [] };
+    const newestFirst = [...added].sort((a, b) => b.timestamp - a.timestamp);
+    return { added: added.length, trades: await this.extractTrades(walletAddress, newestFirst) };
+  }
+
+  /**
+   * Trades already stored for the wallet, newest first, without syncing
+   */
+  async getStoredTrades(walletAddress: string, limit?: number): Promise<TradeInfo[]> {
+    const trades = await this.extractTrades(walletAddress, await this.transactionStore.getTransactions(walletAddress));
+    return limit !== undefined ? trades.slice(0, limit) : trades;
+  }
+
+  /**
+   * Trades in the given transactions, newest first. Extracted trades are kept in the transaction
+   * store, so only transactions synced since the last analysis are parsed.
+   */
+  private async extractTrades(walletAddress: string, transactions: any[]): Promise<TradeInfo[]> {
+    const stored = await this.transactionStore.getTrades(walletAddress, TRADE_FORMAT);
+    const pending = transactions.filter(tx => !stored.has(tx.signature));
+
+    // Resolve decimals and symbols for every traded mint up front
+    // Helius labels most routed swaps SWAP; others still carry a swap event
+    const isSwap = (tx: any) => tx.type === 'SWAP' || !!tx.events?.swap;
+    await this.tokenRegistry.resolveMany(transactions.filter(isSwap).flatMap(swapMints));
+
+    if (pending.length > 0) {
+      const extracted = pending.map(tx => {
+        if (!isSwap(tx)) return { signature: tx.signature, trade: null };
+        console.log(`Processing SWAP transaction: ${tx.signature?.substring(0, 10)}...`);
+        return { signature: tx.signature, trade: this.swapParser.parse(tx, walletAddress) };
+      });
+      await this.transactionStore.addTrades(walletAddress, TRADE_FORMAT, extracted);
+    }
+
+    const trades = await this.transactionStore.getTrades(walletAddress, TRADE_FORMAT);
+    return transactions
+      .map(tx => trades.get(tx.signature))
+      .filter((trade): trade is TradeInfo => !!trade)
+      .map(trade => ({ ...trade })); // Analysis attaches values and P/L, keep the stored trades untouched
+  }
+
+  /**
+   * Attach USD values of both legs, the fee and the other costs to each trade, using historical prices at
+   * the trade timestamp. A leg that cannot be priced takes the value of the other leg.
+   */
+  private async valueTrades(trades: TradeInfo[]) {
+    for (const trade of trades) {
+      try {
+        const solPrice = await this.priceHistory.getMintPriceAt(SOL_MINT, trade.timestamp);
+
+        // SOL and stablecoin legs are cheap to price; only look up other tokens when needed
+        const quoteValue = (mint?: string, amount?: number) => {
+          if (!mint || amount === undefined) return undefined;
+          if (mint === SOL_MINT || mint === 'SOL') return solPrice !== undefined ? amount * solPrice : undefined;
+          return isUsdStablecoin(mint) ? amount : undefined;
+        };
+
+        let valueIn = quoteValue(trade.tokenIn, trade.amountIn);
+        let valueOut = quoteValue(trade.tokenOut, trade.amountOut);
+
+        if (valueIn === undefined && valueOut === undefined) {
+          if (trade.tokenIn && trade.amountIn !== undefined) {
+            const price = await this.priceHistory.getMintPriceAt(trade.tokenIn, trade.timestamp);
+            valueIn = price !== undefined ? trade.amountIn * price : undefined;
+          }
+          if (trade.tokenOut && trade.amountOut !== undefined) {
+            const price = await this.priceHistory.getMintPriceAt(trade.tokenOut, trade.timestamp);
+            valueOut = price !== undefined ? trade.amountOut * price : undefined;
           }
-          
-          console.log(`Token bought: ${boughtTransfer.mint}, Amount: ${tradeInfo.amountOut}`);
         }
-        
-        // For P/L calculation, we'll use a different approach
-        // Instead of trying to calculate exact profit/loss, we'll look at the price impact
-        // If wallet address's balance change is positive, consider it profitable
-        if (tx.accountData) {
-          const walletAccountData = tx.accountData.find((data: any) => 
-            data.account === walletAddress
-          );
-          
-          if (walletAccountData) {
-            // If the native balance increased, consider this profitable
-            if (walletAccountData.nativeBalanceChange > 0) {
-              // Convert lamports to SOL
-              tradeInfo.profitLoss = walletAccountData.nativeBalanceChange / 1e9;
-              console.log(`Trade was profitable: ${tradeInfo.profitLoss} SOL balance increase`);
-            } else if (tradeInfo.tokenOut === 'So11111111111111111111111111111111111111112' && 
-                      tradeInfo.tokenIn !== 'So11111111111111111111111111111111111111112') {
-              // Swapping to SOL
-              tradeInfo.profitLoss = 0.001; // Assume small profit
-            } else {
-              // Set a small negative value to indicate not profitable
-              tradeInfo.profitLoss = -0.001;
-            }
+
+        trade.valueInUsd = valueIn ?? valueOut;
+        trade.valueOutUsd = valueOut ?? valueIn;
+
+        if (solPrice !== undefined) {
+          if (trade.fee !== undefined) trade.feeUsd = trade.fee * solPrice;
+          if (trade.costs) {
+            trade.costsUsd = trade.costs.total * solPrice;
+            trade.rentRefundedUsd = trade.costs.rentRefunded * solPrice;
           }
         }
-        
-        return tradeInfo;
+      } catch (error) {
+        console.error(`Could not value trade ${trade.signature}:`, error);
       }
-      
-      // If we couldn't extract token transfer data, check if there's any native SOL transfers
-      if (tx.nativeTransfers && tx.nativeTransfers.length > 0) {
-        const solReceived = tx.nativeTransfers.filter((transfer: any) => 
-          transfer.toUserAccount === walletAddress
-        );
-        
-        const solSent = tx.nativeTransfers.filter((transfer: any) => 
-          transfer.fromUserAccount === walletAddress
-        );
-        
-        if (solSent.length > 0 && solReceived.length > 0) {
-          // This is likely a SOL swap
-          tradeInfo.tokenIn = 'SOL';
-          tradeInfo.tokenOut = 'SOL';
-          tradeInfo.amountIn = solSent.reduce((sum: number, transfer: any) => sum + transfer.amount, 0) / 1e9;
-          tradeInfo.amountOut = solReceived.reduce((sum: number, transfer: any) => sum + transfer.amount, 0) / 1e9;
-          return tradeInfo;
+    }
+  }
+
+  /**
+   * Token movements of inbound and outbound transfers, oldest first. Inbound tokens are valued
+   * at their historical price. Tokens without one are counted as `unpriced` and left out, so a
+   * later sale stays unmatched instead of showing its full proceeds as profit; only airdrops,
+   * which cost nothing, enter at zero cost.
+   */
+  private async valueFlows(activities: WalletActivity[]): Promise<{ flows: Flow[]; unpriced: number }> {
+    const flows: Flow[] = [];
+    let unpriced = 0;
+    for (const activity of activities) {
+      const inbound = INFLOW_CATEGORIES.includes(activity.category);
+      if (!inbound && !OUTFLOW_CATEGORIES.includes(activity.category)) continue;
+
+      let solPrice: number | undefined;
+      for (const movement of activity.movements) {
+        if (inbound !== movement.amount > 0) continue;
+
+        let costUsd = 0;
+        let costSol = 0;
+        if (inbound) {
+          let price: number | undefined;
+          try {
+            solPrice ??= await this.priceHistory.getMintPriceAt(SOL_MINT, activity.timestamp);
+            price = movement.mint === SOL_MINT ? solPrice
+              : isUsdStablecoin(movement.mint) ? 1
+              : await this.priceHistory.getMintPriceAt(movement.mint, activity.timestamp);
+          } catch (error) {
+            console.error(`Could not value transfer ${activity.signature}:`, error);
+          }
+          // Both ledgers need a cost, the SOL ledger through the SOL price of the day
+          if (price !== undefined && solPrice) {
+            costUsd = movement.amount * price;
+            costSol = costUsd / solPrice;
+          } else if (activity.category !== 'airdrop') {
+            unpriced++;
+            continue;
+          }
         }
+        flows.push({
+          timestamp: activity.timestamp,
+          signature: activity.signature,
+          mint: movement.mint,
+          amount: movement.amount,
+          costUsd,
+          costSol
+        });
       }
-      
-      // We couldn't extract transaction details
-      return null;
-    } catch (error) {
-      console.error('Error extracting trade info:', error);
-      return null;
     }
+    return { flows: flows.sort((a, b) => a.timestamp - b.timestamp), unpriced };
   }
 
-  async generateEndOfDayReport(walletAddress: string): Promise<string> {
-    try {
-      const stats = await this.analyzeWallet(walletAddress);
-      
-      // For tokens, try to map common addresses to names
-      const tokenMap: {[key: string]: string} = {
-        'So11111111111111111111111111111111111111112': 'SOL',
-        'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 'USDC',
-        'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': 'USDT'
-      };
-      
-      const formatToken = (mint?: string) => {
-        if (!mint) return 'Unknown';
-        return tokenMap[mint] || mint.slice(0, 4) + '...' + mint.slice(-4);
-      };
-      
-      return `
+  /**
+   * SOL reclaimed by account closures outside swaps, valued at the SOL price of the day
+   */
+  private async valueRentRefunds(activities: WalletActivity[]): Promise<{ amount: number; amountUsd: number }[]> {
+    const refunds: { amount: number; amountUsd: number }[] = [];
+    for (const activity of activities) {
+      if (activity.category !== 'rent' || activity.amount <= 0) continue;
+      let amountUsd = 0;
+      try {
+        const solPrice = await this.priceHistory.getMintPriceAt(SOL_MINT, activity.timestamp);
+        amountUsd = solPrice !== undefined ? activity.amount * solPrice : 0;
+      } catch (error) {
+        console.error(`Could not value rent refund ${activity.signature}:`, error);
+      }
+      refunds.push({ amount: activity.amount, amountUsd });
+    }
+    return refunds;
+  }
+
+  private portfolioValuePoint(ledger: PositionLedger, day: number): PortfolioValuePoint {
+    const positions = ledger.getPositions();
+    return {
+      date: new Date(day * 86400 * 1000).toISOString().slice(0, 10),
+      valueUsd: positions.reduce((sum, position) => sum + position.amountHeld * (position.lastPrice ?? 0), 0),
+      costBasisUsd: positions.reduce((sum, position) => sum + position.costBasis, 0)
+    };
+  }
+
+  /**
+   * Analyze the wallet and collect the sections of the end-of-day report, with mints resolved
+   * to symbols. Recent trades are the five newest.
+   */
+  async buildEndOfDayReport(walletAddress: string, options: AnalyzeOptions = {}): Promise<EndOfDayReport> {
+    const stats = await this.analyzeWallet(walletAddress, options);
+    const { positions, positionsUsd, portfolioValueHistory, tradeHistory, ...summary } = stats;
+    const usdPositions = new Map(positionsUsd.map(position => [position.mint, position]));
+
+    return {
+      walletAddress,
+      generatedAt: new Date().toISOString(),
+      summary,
+      tokens: positions.map(position => {
+        const usd = usdPositions.get(position.mint);
+        return {
+          mint: position.mint,
+          symbol: this.tokenRegistry.symbol(position.mint),
+          amountHeld: position.amountHeld,
+          realizedProfitLoss: position.realizedProfitLoss,
+          unrealizedProfitLoss: position.unrealizedProfitLoss,
+          ...(usd ? { realizedProfitLossUsd: usd.realizedProfitLoss, unrealizedProfitLossUsd: usd.unrealizedProfitLoss } : {})
+        };
+      }),
+      portfolioValue: portfolioValueHistory.slice(-7),
+      recentTrades: tradeHistory.slice(0, 5).map(trade => ({
+        ...trade,
+        tokenInSymbol: this.tokenRegistry.symbol(trade.tokenIn),
+        tokenOutSymbol: this.tokenRegistry.symbol(trade.tokenOut)
+      }))
+    };
+  }
+
+  async generateEndOfDayReport(walletAddress: string, options: AnalyzeOptions = {}): Promise<string> {
+    return formatEndOfDayReport(await this.buildEndOfDayReport(walletAddress, options));
+  }
+}
+
+/**
+ * Plain-text rendering of an end-of-day report
+ */
+export function formatEndOfDayReport(report: EndOfDayReport): string {
+  const { summary: stats } = report;
+  return `
 === Solana Wallet Trading Report ===
-Wallet: ${walletAddress}
+Wallet: ${report.walletAddress}
 Total Swaps: ${stats.totalTrades}
 Profitable Trades: ${stats.profitableTrades}
-Success Rate: ${stats.successRate.toFixed(2)}%
+Success Rate: ${stats.successRate.toFixed(2)}% (${stats.closedTrades} closed trades)
+Realized P/L: ${stats.realizedProfitLoss.toFixed(4)} SOL (${stats.accountingMethod.toUpperCase()})
+Unrealized P/L: ${stats.unrealizedProfitLoss.toFixed(4)} SOL
 Total P/L: ${stats.totalProfitLoss.toFixed(4)} SOL
+USD P/L: $${stats.totalProfitLossUsd.toFixed(2)} (realized $${stats.realizedProfitLossUsd.toFixed(2)}, unrealized $${stats.unrealizedProfitLossUsd.toFixed(2)})${stats.unpricedTrades > 0 ? ` — ${stats.unpricedTrades} trades could not be priced` : ''}${stats.unpricedTransfers > 0 ? ` — ${stats.unpricedTransfers} transfers in could not be priced and have no cost basis` : ''}
+${formatTradingCosts(stats)}
 Average Trade Size: ${stats.averageTradeSize.toFixed(4)} SOL
 Largest SOL Trade: ${stats.largestSOLTrade.toFixed(4)} SOL
+Transactions in Range: ${stats.transactionsInRange}${stats.historyTruncated ? ' (history truncated, raise maxTransactions for more)' : ''}
+Activity: ${formatActivityCounts(stats.activityCounts)}
+
+P/L by Token:
+${report.tokens.map(token =>
+  `   ${token.symbol}: realized ${token.realizedProfitLoss.toFixed(4)} SOL, unrealized ${token.unrealizedProfitLoss.toFixed(4)} SOL (holding ${token.amountHeld.toFixed(6)})` +
+    (token.realizedProfitLossUsd !== undefined ? `\n      USD: realized $${token.realizedProfitLossUsd.toFixed(2)}, unrealized $${(token.unrealizedProfitLossUsd ?? 0).toFixed(2)}` : '')
+).join('\n') || '   No positions'}
+
+${formatTradingMetrics(stats.metrics)}
+
+Portfolio Value (tracked positions, last 7 trading days):
+${report.portfolioValue.map(point =>
+  `   ${point.date}: $${point.valueUsd.toFixed(2)} (cost basis $${point.costBasisUsd.toFixed(2)})`
+).join('\n') || '   No data'}
 
 Recent Trades:
-${stats.tradeHistory.slice(0, 5).map(trade => 
-  `${new Date(trade.timestamp * 1000).toLocaleString()}
-   ${formatToken(trade.tokenIn)} → ${formatToken(trade.tokenOut)}
-   Amount: ${trade.amountIn?.toFixed(6) || 'Unknown'} → ${trade.amountOut?.toFixed(6) || 'Unknown'}
-   Source: ${trade.source || 'Unknown'}
+${report.recentTrades.map(trade =>
+  `${formatZonedDateTime(trade.timestamp, 'UTC')} UTC
+   ${trade.tokenInSymbol} → ${trade.tokenOutSymbol}
+   Amount: ${trade.amountIn?.toFixed(6) || 'Unknown'} → ${trade.amountOut?.toFixed(6) || 'Unknown'}${trade.valueOutUsd !== undefined ? ` ($${trade.valueOutUsd.toFixed(2)})` : ''}
+   Source: ${trade.source || 'Unknown'}${trade.costs ? ` (costs ${trade.costs.total.toFixed(6)} SOL)` : ''}${trade.route && trade.route.length > 1 ? ` via ${trade.route.map(hop => hop.program ?? '?').join(' → ')}` : ''}${trade.profitLoss !== undefined ? `\n   Realized P/L: ${trade.profitLoss.toFixed(4)} SOL` : ''}
   `).join('\n')}
 `;
-    } catch (error) {
-      console.error('Error generating report:', error);
-      return `Error generating report: ${error}. Try checking only the last few transactions.`;
-    }
-  }
-} 
\ No newline at end of file
+}
+
+/**
+ * Non-zero activity counts, e.g. "12 swap, 3 transfer_in, 1 airdrop"
+ */
+export function formatActivityCounts(counts: Record<ActivityCategory, number>): string {
+  return Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([category, count]) => `${count} ${category}`)
+    .join(', ') || 'none';
+}
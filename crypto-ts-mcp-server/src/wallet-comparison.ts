@@ -0,0 +1,239 @@
+import { SOL_MINT } from './position-ledger.js';
+import { isUsdStablecoin } from './price-history.js';
+import { AppError } from './errors.js';
+import { formatDuration } from './trading-metrics.js';
+import type { WalletAnalyzer, TradeInfo, AnalyzeOptions } from './wallet-analyzer.js';
+import type { TokenRegistry } from './token-registry.js';
+
+export interface CompareOptions extends AnalyzeOptions {
+  windowSeconds?: number; // How soon after the leader a follower's trade counts as a mirror (default 1 hour)
+}
+
+// Side-by-side performance of one wallet
+export interface ComparedWallet {
+  walletAddress: string;
+  totalTrades: number;
+  closedTrades: number;
+  successRate: number; // Percent of closed trades that were profitable
+  realizedProfitLoss: number; // SOL
+  realizedProfitLossUsd: number;
+  totalProfitLoss: number; // SOL, realized and unrealized
+  totalProfitLossUsd: number;
+  tokensTraded: number;
+  historyTruncated: boolean;
+}
+
+export interface TokenEntry {
+  walletAddress: string;
+  enteredAt: number; // Unix seconds of the first buy, or the first trade when the wallet never bought
+  lagSeconds: number; // Behind the first wallet to enter, 0 for the leader
+  trades: number;
+}
+
+export interface SharedToken {
+  mint: string;
+  symbol: string;
+  entries: TokenEntry[]; // Earliest entry first
+}
+
+// How closely `follower` repeats `leader`'s buys and sells of the same token
+export interface MirrorScore {
+  leader: string;
+  follower: string;
+  leaderActions: number; // Token buys and sells of the leader
+  mirroredActions: number; // Of those, followed by the same action on the same token within the window
+  score: number; // mirroredActions / leaderActions, 0 to 1
+  averageLagSeconds?: number;
+}
+
+export interface WalletComparison {
+  windowSeconds: number;
+  wallets: ComparedWallet[];
+  sharedTokens: SharedToken[]; // Tokens traded by at least two wallets, most wallets first
+  mirrorScores: MirrorScore[]; // Every ordered pair, highest score first
+}
+
+// One side of a trade in a token, SOL and stablecoins being the quote
+interface TokenAction {
+  mint: string;
+  side: 'buy' | 'sell';
+  timestamp: number;
+}
+
+const DEFAULT_WINDOW_SECONDS = 60 * 60;
+const MAX_WALLETS = 10;
+
+const isQuote = (mint: string) => mint === SOL_MINT || isUsdStablecoin(mint);
+
+/**
+ * Token buys and sells of the trades, oldest first. A token-to-token swap sells one and buys the other.
+ */
+function tokenActions(trades: TradeInfo[]): TokenAction[] {
+  const actions: TokenAction[] = [];
+  for (const trade of trades) {
+    if (trade.tokenIn && !isQuote(trade.tokenIn)) actions.push({ mint: trade.tokenIn, side: 'sell', timestamp: trade.timestamp });
+    if (trade.tokenOut && !isQuote(trade.tokenOut)) actions.push({ mint: trade.tokenOut, side: 'buy', timestamp: trade.timestamp });
+  }
+  return actions.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Match each leader action with the earliest unused follower action on the same token and side
+ * inside [leader time, leader time + window]
+ */
+function mirrorScore(leader: string, follower: string, leaderActions: TokenAction[], followerActions: TokenAction[], windowSeconds: number): MirrorScore {
+  const used = new Set<number>();
+  const lags: number[] = [];
+  for (const action of leaderActions) {
+    const match = followerActions.findIndex((candidate, index) => !used.has(index)
+      && candidate.mint === action.mint
+      && candidate.side === action.side
+      && candidate.timestamp >= action.timestamp
+      && candidate.timestamp - action.timestamp <= windowSeconds);
+    if (match >= 0) {
+      used.add(match);
+      lags.push(followerActions[match].timestamp - action.timestamp);
+    }
+  }
+
+  return {
+    leader,
+    follower,
+    leaderActions: leaderActions.length,
+    mirroredActions: lags.length,
+    score: leaderActions.length > 0 ? lags.length / leaderActions.length : 0,
+    ...(lags.length > 0 ? { averageLagSeconds: lags.reduce((sum, lag) => sum + lag, 0) / lags.length } : {})
+  };
+}
+
+/**
+ * Compares wallets for vetting: who trades the same tokens first, how closely one copies another,
+ * and their results side by side. Trades come from WalletAnalyzer, so the stored swap extraction
+ * and lot replay are shared with every other wallet tool.
+ */
+export class WalletComparer {
+  constructor(private walletAnalyzer: WalletAnalyzer, private tokenRegistry: TokenRegistry) {}
+
+  async compare(walletAddresses: string[], options: CompareOptions = {}): Promise<WalletComparison> {
+    const { windowSeconds = DEFAULT_WINDOW_SECONDS, ...analyzeOptions } = options;
+    const addresses = [...new Set(walletAddresses)];
+    if (addresses.length < 2) {
+      throw new AppError('invalid_input', 'Comparing needs at least two different wallets');
+    }
+    if (addresses.length > MAX_WALLETS) {
+      throw new AppError('invalid_input', `Compare at most ${MAX_WALLETS} wallets at once`);
+    }
+    if (!(windowSeconds > 0)) {
+      throw new AppError('invalid_input', 'The mirror window must be positive');
+    }
+
+    // Wallets are synced one after another so they share the Helius quota politely
+    const wallets: ComparedWallet[] = [];
+    const actions = new Map<string, TokenAction[]>();
+    for (const walletAddress of addresses) {
+      const stats = await this.walletAnalyzer.analyzeWallet(walletAddress, analyzeOptions);
+      const walletActions = tokenActions(stats.tradeHistory);
+      actions.set(walletAddress, walletActions);
+      wallets.push({
+        walletAddress,
+        totalTrades: stats.totalTrades,
+        closedTrades: stats.closedTrades,
+        successRate: stats.successRate,
+        realizedProfitLoss: stats.realizedProfitLoss,
+        realizedProfitLossUsd: stats.realizedProfitLossUsd,
+        totalProfitLoss: stats.totalProfitLoss,
+        totalProfitLossUsd: stats.totalProfitLossUsd,
+        tokensTraded: new Set(walletActions.map(action => action.mint)).size,
+        historyTruncated: stats.historyTruncated
+      });
+    }
+
+    const sharedTokens = await this.sharedTokens(actions);
+
+    const mirrorScores: MirrorScore[] = [];
+    for (const leader of addresses) {
+      for (const follower of addresses) {
+        if (leader === follower) continue;
+        mirrorScores.push(mirrorScore(leader, follower, actions.get(leader)!, actions.get(follower)!, windowSeconds));
+      }
+    }
+    mirrorScores.sort((a, b) => b.score - a.score || b.mirroredActions - a.mirroredActions);
+
+    return { windowSeconds, wallets, sharedTokens, mirrorScores };
+  }
+
+  private async sharedTokens(actions: Map<string, TokenAction[]>): Promise<SharedToken[]> {
+    const entriesByMint = new Map<string, Omit<TokenEntry, 'lagSeconds'>[]>();
+    for (const [walletAddress, walletActions] of actions) {
+      const byMint = new Map<string, TokenAction[]>();
+      for (const action of walletActions) {
+        const list = byMint.get(action.mint);
+        if (list) {
+          list.push(action);
+        } else {
+          byMint.set(action.mint, [action]);
+        }
+      }
+      for (const [mint, mintActions] of byMint) {
+        const firstBuy = mintActions.find(action => action.side === 'buy');
+        const entry = { walletAddress, enteredAt: (firstBuy ?? mintActions[0]).timestamp, trades: mintActions.length };
+        const entries = entriesByMint.get(mint);
+        if (entries) {
+          entries.push(entry);
+        } else {
+          entriesByMint.set(mint, [entry]);
+        }
+      }
+    }
+
+    const shared = [...entriesByMint].filter(([, entries]) => entries.length >= 2);
+    await this.tokenRegistry.resolveMany(shared.map(([mint]) => mint));
+
+    return shared.map(([mint, entries]) => {
+      const ordered = [...entries].sort((a, b) => a.enteredAt - b.enteredAt);
+      return {
+        mint,
+        symbol: this.tokenRegistry.symbol(mint),
+        entries: ordered.map(entry => ({ ...entry, lagSeconds: entry.enteredAt - ordered[0].enteredAt }))
+      };
+    }).sort((a, b) => b.entries.length - a.entries.length || a.entries[0].enteredAt - b.entries[0].enteredAt);
+  }
+}
+
+/**
+ * Plain-text comparison: results side by side, shared tokens (top `limit`) and mirror scores
+ */
+export function formatWalletComparison(comparison: WalletComparison, limit = 10): string {
+  const short = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`;
+  const wallets = comparison.wallets.map(wallet =>
+    `- ${wallet.walletAddress}: ${wallet.totalTrades} trades, win rate ${wallet.successRate.toFixed(2)}% of ${wallet.closedTrades} closed, ` +
+    `realized ${wallet.realizedProfitLoss.toFixed(4)} SOL ($${wallet.realizedProfitLossUsd.toFixed(2)}), ` +
+    `total ${wallet.totalProfitLoss.toFixed(4)} SOL ($${wallet.totalProfitLossUsd.toFixed(2)}), ${wallet.tokensTraded} tokens` +
+    (wallet.historyTruncated ? ' (history truncated)' : '')
+  ).join('\n');
+
+  const tokens = comparison.sharedTokens.slice(0, limit).map(token =>
+    `- ${token.symbol}: ` + token.entries.map((entry, index) =>
+      index === 0 ? `${short(entry.walletAddress)} first (${new Date(entry.enteredAt * 1000).toISOString().slice(0, 16).replace('T', ' ')} UTC)`
+        : `${short(entry.walletAddress)} +${formatDuration(entry.lagSeconds)}`
+    ).join(', ')
+  ).join('\n') || '- None';
+  const moreTokens = comparison.sharedTokens.length > limit ? `\n  …and ${comparison.sharedTokens.length - limit} more` : '';
+
+  const scores = comparison.mirrorScores.map(score =>
+    `- ${short(score.follower)} mirrors ${short(score.leader)}: ${(score.score * 100).toFixed(1)}% ` +
+    `(${score.mirroredActions}/${score.leaderActions} actions` +
+    (score.averageLagSeconds !== undefined ? `, average lag ${formatDuration(score.averageLagSeconds)}` : '') + ')'
+  ).join('\n');
+
+  return `Wallet Comparison (${comparison.wallets.length} wallets):
+
+Performance:
+${wallets}
+
+Shared Tokens (${comparison.sharedTokens.length}):
+${tokens}${moreTokens}
+
+Mirroring within ${formatDuration(comparison.windowSeconds)}:
+${scores}`;
+}
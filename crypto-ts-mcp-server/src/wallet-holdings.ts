@@ -0,0 +1,235 @@
+import { AppError } from './errors.js';
+import { httpClient, apiBaseUrl } from './http-client.js';
+import { SOL_MINT } from './position-ledger.js';
+import { isUsdStablecoin } from './price-history.js';
+import { normalizeVsCurrency } from './price-service.js';
+import { assertSolanaAddress } from './solana-address.js';
+import { shortMint } from './token-registry.js';
+import type { PriceService } from './price-service.js';
+import type { TokenRegistry } from './token-registry.js';
+
+export type TokenProgram = 'native' | 'spl-token' | 'token-2022';
+
+export interface Holding {
+  mint: string; // SOL_MINT for native SOL
+  symbol: string;
+  name: string;
+  decimals: number;
+  amount: number;
+  program: TokenProgram;
+  price?: number; // In the requested currency
+  value?: number;
+  allocation?: number; // Percent of the wallet's total value
+  priceSource?: string; // 'stablecoin', 'jupiter' or the price provider that quoted SOL
+  spam: boolean;
+}
+
+export interface HoldingsOptions {
+  vsCurrency?: string;
+  minValue?: number; // Holdings worth less than this are dust (default 0: nothing is dust)
+  includeSpam?: boolean; // Default false
+  includeZeroValue?: boolean; // Holdings without a price or worth nothing (default true)
+}
+
+export interface WalletHoldings {
+  walletAddress: string;
+  vsCurrency: string;
+  fetchedAt: string; // ISO timestamp
+  totalValue: number; // Every priced holding that is not spam, including hidden dust
+  holdings: Holding[]; // Largest value first
+  hidden: { dust: number; spam: number; zeroValue: number };
+}
+
+const TOKEN_PROGRAMS: Record<string, TokenProgram> = {
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: 'spl-token',
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: 'token-2022'
+};
+const PRICE_BATCH_SIZE = 50; // Maximum ids per Jupiter price request
+const PRICE_CACHE_TTL_MS = 60000;
+
+// Airdropped spam advertises a site or a "claim" in its name
+const SPAM_TEXT = /https?:|www\.|\.(com|io|xyz|net|org|app|site|fun)\b|claim|airdrop|reward|visit/i;
+
+/**
+ * Current balances of a wallet: native SOL plus every SPL Token and Token-2022 account,
+ * with symbols and decimals from the token registry. SOL is priced through the price
+ * service (the `getCryptoPrice` path); other tokens through Jupiter's USD prices,
+ * converted to the requested currency at the SOL rate.
+ */
+export class HoldingsService {
+  private requestTimeout: number = 10000;
+  private tokenPrices: Map<string, { price?: number; fetchedAt: number }> = new Map();
+
+  constructor(private heliusApiKey: string, private tokenRegistry: TokenRegistry, private priceService: PriceService) {}
+
+  async getHoldings(walletAddress: string, options: HoldingsOptions = {}): Promise<WalletHoldings> {
+    assertSolanaAddress(walletAddress);
+    const vsCurrency = normalizeVsCurrency(options.vsCurrency);
+    const balances = await this.getBalances(walletAddress);
+    const tokens = await this.tokenRegistry.resolveMany(balances.filter(balance => balance.program !== 'native').map(balance => balance.mint));
+
+    const solUsd = await this.priceService.getPrice('solana', 'usd');
+    const solVs = vsCurrency === 'usd' ? solUsd : await this.priceService.getPrice('solana', vsCurrency);
+    // USD → requested currency, at the rate implied by SOL's two quotes
+    const usdRate = !('error' in solUsd) && !('error' in solVs) && solUsd.price > 0 ? solVs.price / solUsd.price : undefined;
+    const usdPrices = await this.getUsdPrices(balances.map(balance => balance.mint).filter(mint => mint !== SOL_MINT && !isUsdStablecoin(mint)));
+
+    const all: Holding[] = balances.map(balance => {
+      const token = balance.program === 'native' ? { symbol: 'SOL', name: 'Solana', decimals: 9 } : tokens.get(balance.mint);
+      const holding: Holding = {
+        mint: balance.mint,
+        symbol: token?.symbol ?? shortMint(balance.mint),
+        name: token?.name ?? balance.mint,
+        decimals: token?.decimals ?? balance.decimals,
+        amount: balance.amount,
+        program: balance.program,
+        spam: false
+      };
+
+      if (balance.program === 'native') {
+        if (!('error' in solVs)) {
+          holding.price = solVs.price;
+          holding.priceSource = solVs.source;
+        }
+      } else if (isUsdStablecoin(balance.mint) && usdRate !== undefined) {
+        holding.price = usdRate;
+        holding.priceSource = 'stablecoin';
+      } else if (usdPrices.has(balance.mint) && usdRate !== undefined) {
+        holding.price = usdPrices.get(balance.mint)! * usdRate;
+        holding.priceSource = 'jupiter';
+      }
+
+      if (holding.price !== undefined) {
+        holding.value = holding.amount * holding.price;
+      } else {
+        // Tokens nobody quotes are spam when their metadata is missing or reads like an ad
+        holding.spam = !token || SPAM_TEXT.test(`${holding.symbol} ${holding.name}`);
+      }
+      return holding;
+    });
+
+    const totalValue = all.filter(holding => !holding.spam).reduce((sum, holding) => sum + (holding.value ?? 0), 0);
+    const hidden = { dust: 0, spam: 0, zeroValue: 0 };
+    const holdings = all.filter(holding => {
+      if (holding.spam && !options.includeSpam) {
+        hidden.spam++;
+        return false;
+      }
+      if (!holding.value) {
+        if (options.includeZeroValue === false) {
+          hidden.zeroValue++;
+          return false;
+        }
+        return true;
+      }
+      if (options.minValue !== undefined && holding.value < options.minValue) {
+        hidden.dust++;
+        return false;
+      }
+      return true;
+    });
+
+    for (const holding of holdings) {
+      if (holding.value !== undefined && totalValue > 0) {
+        holding.allocation = (holding.value / totalValue) * 100;
+      }
+    }
+    holdings.sort((a, b) => (b.value ?? -1) - (a.value ?? -1) || b.amount - a.amount);
+
+    return { walletAddress, vsCurrency, fetchedAt: new Date().toISOString(), totalValue, holdings, hidden };
+  }
+
+  /**
+   * Current USD prices of token mints from Jupiter, cached for a minute. Mints without a
+   * quote are left out.
+   */
+  private async getUsdPrices(mints: string[]): Promise<Map<string, number>> {
+    const now = Date.now();
+    const unique = [...new Set(mints)];
+    const missing = unique.filter(mint => {
+      const cached = this.tokenPrices.get(mint);
+      return !cached || now - cached.fetchedAt > PRICE_CACHE_TTL_MS;
+    });
+
+    for (let i = 0; i < missing.length; i += PRICE_BATCH_SIZE) {
+      const batch = missing.slice(i, i + PRICE_BATCH_SIZE);
+      const prices = await this.fetchJupiterPrices(batch);
+      for (const mint of batch) {
+        this.tokenPrices.set(mint, { price: prices?.get(mint), fetchedAt: prices ? now : 0 });
+      }
+    }
+
+    const result = new Map<string, number>();
+    for (const mint of unique) {
+      const price = this.tokenPrices.get(mint)?.price;
+      if (price !== undefined) result.set(mint, price);
+    }
+    return result;
+  }
+
+  /**
+   * Native SOL and token balances, summed per mint. Empty token accounts are skipped.
+   */
+  private async getBalances(walletAddress: string): Promise<{ mint: string; amount: number; decimals: number; program: TokenProgram }[]> {
+    const lamports = await this.rpc('getBalance', [walletAddress]);
+    const balances = new Map<string, { mint: string; amount: number; decimals: number; program: TokenProgram }>();
+
+    for (const [programId, program] of Object.entries(TOKEN_PROGRAMS)) {
+      const accounts = await this.rpc('getTokenAccountsByOwner', [walletAddress, { programId }, { encoding: 'jsonParsed' }]);
+      for (const account of accounts?.value || []) {
+        const info = account.account?.data?.parsed?.info;
+        const tokenAmount = info?.tokenAmount;
+        if (!info?.mint || !tokenAmount || tokenAmount.amount === '0') continue;
+
+        const amount = parseFloat(tokenAmount.amount) / Math.pow(10, tokenAmount.decimals);
+        const existing = balances.get(info.mint);
+        if (existing) {
+          existing.amount += amount;
+        } else {
+          balances.set(info.mint, { mint: info.mint, amount, decimals: tokenAmount.decimals, program });
+        }
+      }
+    }
+
+    return [
+      { mint: SOL_MINT, amount: (lamports?.value ?? 0) / 1e9, decimals: 9, program: 'native' as const },
+      ...balances.values()
+    ];
+  }
+
+  private async rpc(method: string, params: unknown[]): Promise<any> {
+    const response = await httpClient.post(
+      `${apiBaseUrl('heliusRpc')}/?api-key=${this.heliusApiKey}`,
+      { jsonrpc: '2.0', id: 'wallet-holdings', method, params },
+      { timeout: this.requestTimeout }
+    );
+    if (response.data?.error) {
+      throw new AppError('upstream_error', `${method} failed: ${response.data.error.message || JSON.stringify(response.data.error)}`, { retryable: false });
+    }
+    return response.data?.result;
+  }
+
+  /**
+   * USD prices from Jupiter, undefined when the request failed (so it is retried next time)
+   */
+  private async fetchJupiterPrices(mints: string[]): Promise<Map<string, number> | undefined> {
+    try {
+      console.log(`API CALL: Fetching Jupiter prices for ${mints.length} mints`);
+      const response = await httpClient.get(`${apiBaseUrl('jupiter')}/price/v3`, {
+        params: { ids: mints.join(',') },
+        timeout: this.requestTimeout,
+        headers: { 'Accept': 'application/json' }
+      });
+
+      const prices = new Map<string, number>();
+      for (const [mint, entry] of Object.entries<any>(response.data || {})) {
+        const price = Number(entry?.usdPrice);
+        if (entry && isFinite(price) && price > 0) prices.set(mint, price);
+      }
+      return prices;
+    } catch (error: any) {
+      console.error('❌ API ERROR: Could not fetch Jupiter prices:', error.message || error);
+      return undefined;
+    }
+  }
+}